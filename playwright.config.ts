@@ -205,6 +205,12 @@ export default defineConfig({
       },
     },
     
+    /* Compliance kit unit specs (fixtures only, no browser or network) */
+    {
+      name: 'compliance',
+      testMatch: /.*\.unit\.spec\.ts$/,
+    },
+
     /* API Testing Project */
     {
       name: 'api',
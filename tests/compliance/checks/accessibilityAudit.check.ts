@@ -0,0 +1,257 @@
+import type { Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { installDomHelpers } from '../engine/dom';
+
+export const ACCESSIBILITY_RULES = ['contrast', 'image_alt', 'form_labels', 'focus_order'] as const;
+export type AccessibilityRule = (typeof ACCESSIBILITY_RULES)[number];
+
+/** Automation key holding the tolerated number of violations for each rule (default 0). */
+export const ACCESSIBILITY_THRESHOLD_KEYS: Record<AccessibilityRule, string> = {
+  contrast: 'max_contrast_violations',
+  image_alt: 'max_missing_alt',
+  form_labels: 'max_unlabeled_controls',
+  focus_order: 'max_focus_order_issues',
+};
+
+type Violation = { selector: string; detail: string };
+
+type AuditArgs = {
+  rules: AccessibilityRule[];
+  minContrast: number;
+  minContrastLarge: number;
+  imageSelector: string;
+  sampleLimit: number;
+};
+
+type AuditOutput = Record<AccessibilityRule, { checked: number; violations: Violation[] }>;
+
+function parseRules(value: unknown): AccessibilityRule[] {
+  if (!Array.isArray(value)) return [...ACCESSIBILITY_RULES];
+  const rules = value
+    .map(v => String(v).trim())
+    .filter((v): v is AccessibilityRule => (ACCESSIBILITY_RULES as readonly string[]).includes(v));
+  return rules.length ? rules : [...ACCESSIBILITY_RULES];
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/**
+ * Runs every rule inside the page in one pass. Must be self-contained (Playwright serializes it); `selectorOf`
+ * and `isVisible` come from `installDomHelpers`.
+ * - contrast: visible text vs. its first opaque ancestor background (WCAG relative luminance); text over
+ *   background images cannot be measured and is not counted
+ * - image_alt: visible images (>= 32px) without an `alt` attribute; `alt=""`/presentation role means decorative
+ * - form_labels: visible inputs/selects/textareas without label, aria-label(ledby) or title
+ * - focus_order: positive tabindex (overrides the DOM order) and focusable elements inside aria-hidden regions
+ */
+function auditInPage(args: AuditArgs): AuditOutput {
+  const out: AuditOutput = {
+    contrast: { checked: 0, violations: [] },
+    image_alt: { checked: 0, violations: [] },
+    form_labels: { checked: 0, violations: [] },
+    focus_order: { checked: 0, violations: [] },
+  };
+
+  const { selectorOf, isVisible } = window.__complianceDom!;
+
+  const parseColor = (value: string): [number, number, number, number] | null => {
+    const m = value.match(/rgba?\(([^)]+)\)/);
+    if (!m) return null;
+    const [r, g, b, a] = m[1]
+      .split(/[\s,/]+/)
+      .filter(Boolean)
+      .map(Number);
+    return [r, g, b, a === undefined || Number.isNaN(a) ? 1 : a];
+  };
+
+  const luminance = ([r, g, b]: number[]): number => {
+    const channel = (c: number) => {
+      const s = c / 255;
+      return s <= 0.03928 ? s / 12.92 : Math.pow((s + 0.055) / 1.055, 2.4);
+    };
+    return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+  };
+
+  const backgroundOf = (el: Element): number[] | null => {
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.backgroundImage && style.backgroundImage !== 'none') return null;
+      const bg = parseColor(style.backgroundColor);
+      if (bg && bg[3] >= 0.99) return bg.slice(0, 3);
+    }
+    return [255, 255, 255];
+  };
+
+  if (args.rules.includes('contrast')) {
+    const textElements = Array.from(document.body.querySelectorAll('*')).filter(el =>
+      Array.from(el.childNodes).some(
+        n => n.nodeType === Node.TEXT_NODE && (n.textContent || '').trim().length > 1
+      )
+    );
+    for (const el of textElements) {
+      if (out.contrast.checked >= args.sampleLimit) break;
+      if (!isVisible(el)) continue;
+      const style = getComputedStyle(el);
+      const fg = parseColor(style.color);
+      const bg = backgroundOf(el);
+      if (!fg || !bg) continue;
+      out.contrast.checked++;
+
+      // Blend semi-transparent text over its background before measuring.
+      const blended = [0, 1, 2].map(i => fg[i] * fg[3] + bg[i] * (1 - fg[3]));
+      const l1 = luminance(blended);
+      const l2 = luminance(bg);
+      const ratio = (Math.max(l1, l2) + 0.05) / (Math.min(l1, l2) + 0.05);
+
+      const size = parseFloat(style.fontSize) || 16;
+      const bold = Number(style.fontWeight) >= 700 || style.fontWeight === 'bold';
+      const large = size >= 24 || (bold && size >= 18.66);
+      const required = large ? args.minContrastLarge : args.minContrast;
+      if (ratio < required) {
+        out.contrast.violations.push({
+          selector: selectorOf(el),
+          detail: `${ratio.toFixed(2)}:1 < ${required}:1 ("${(el.textContent || '').trim().slice(0, 40)}")`,
+        });
+      }
+    }
+  }
+
+  if (args.rules.includes('image_alt')) {
+    for (const img of Array.from(document.querySelectorAll(args.imageSelector))) {
+      if (!(img instanceof HTMLImageElement) || !isVisible(img)) continue;
+      const rect = img.getBoundingClientRect();
+      if (rect.width < 32 || rect.height < 32) continue;
+      if (img.getAttribute('role') === 'presentation' || img.getAttribute('aria-hidden') === 'true')
+        continue;
+      out.image_alt.checked++;
+      if (!img.hasAttribute('alt')) {
+        out.image_alt.violations.push({
+          selector: selectorOf(img),
+          detail: `no alt (${img.currentSrc || img.src})`,
+        });
+      }
+    }
+  }
+
+  if (args.rules.includes('form_labels')) {
+    const controls = document.querySelectorAll(
+      'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="reset"]):not([type="image"]), select, textarea'
+    );
+    for (const control of Array.from(controls)) {
+      if (!isVisible(control)) continue;
+      out.form_labels.checked++;
+      const labels = (control as HTMLInputElement).labels;
+      const labelled =
+        (labels && Array.from(labels).some(l => (l.textContent || '').trim())) ||
+        (control.getAttribute('aria-label') || '').trim() ||
+        (control.getAttribute('aria-labelledby') || '')
+          .split(/\s+/)
+          .some(id => id && (document.getElementById(id)?.textContent || '').trim()) ||
+        (control.getAttribute('title') || '').trim();
+      if (!labelled) {
+        const name =
+          control.getAttribute('name') ||
+          control.getAttribute('placeholder') ||
+          control.tagName.toLowerCase();
+        out.form_labels.violations.push({
+          selector: selectorOf(control),
+          detail: `no label (${name})`,
+        });
+      }
+    }
+  }
+
+  if (args.rules.includes('focus_order')) {
+    const focusable = document.querySelectorAll(
+      'a[href], button, input:not([type="hidden"]), select, textarea, [tabindex], [contenteditable="true"]'
+    );
+    for (const el of Array.from(focusable)) {
+      if ((el as HTMLElement).tabIndex < 0 || (el as HTMLButtonElement).disabled) continue;
+      out.focus_order.checked++;
+      const tabindex = Number(el.getAttribute('tabindex'));
+      if (tabindex > 0) {
+        out.focus_order.violations.push({
+          selector: selectorOf(el),
+          detail: `tabindex=${tabindex} overrides the page order`,
+        });
+      } else if (el.closest('[aria-hidden="true"]')) {
+        out.focus_order.violations.push({
+          selector: selectorOf(el),
+          detail: 'focusable inside aria-hidden content',
+        });
+      }
+    }
+  }
+
+  return out;
+}
+
+export async function accessibilityAuditCheck(
+  page: Page,
+  req: NormalizedRequirement
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const raw = req.automation.raw;
+  const rules = parseRules(raw.rules);
+
+  let result: AuditOutput;
+  try {
+    await installDomHelpers(page);
+    result = await page.evaluate(auditInPage, {
+      rules,
+      minContrast: numberOr(raw.min_contrast, 4.5),
+      minContrastLarge: numberOr(raw.min_contrast_large, 3),
+      imageSelector: String(raw.image_selector || 'img'),
+      sampleLimit: numberOr(raw.sample_limit, 500),
+    });
+  } catch (e: any) {
+    return {
+      status: 'SKIPPED',
+      reason: `accessibility_audit: in-page audit failed (${e?.message || 'unknown error'})`,
+      evidence: { url: page.url() },
+    };
+  }
+
+  const failed: string[] = [];
+  const summaries: string[] = [];
+  const selectorsUsed: string[] = [];
+  const matchedSnippets: string[] = [];
+
+  for (const rule of rules) {
+    const { checked, violations } = result[rule];
+    const max = numberOr(raw[ACCESSIBILITY_THRESHOLD_KEYS[rule]], 0);
+    summaries.push(`${rule} ${violations.length}/${checked} (max ${max})`);
+    if (violations.length > max) failed.push(rule);
+
+    for (const v of violations.slice(0, 20)) {
+      selectorsUsed.push(v.selector);
+      matchedSnippets.push(`${rule}: ${v.selector} — ${v.detail}`);
+    }
+  }
+
+  const evidence = { url: page.url(), selectorsUsed, matchedSnippets };
+
+  if (failed.length) {
+    return {
+      status: 'FAIL',
+      reason: `accessibility_audit: threshold exceeded for ${failed.join(', ')} (${summaries.join('; ')})`,
+      evidence,
+    };
+  }
+
+  if (rules.every(rule => result[rule].checked === 0)) {
+    return {
+      status: 'SKIPPED',
+      reason: `accessibility_audit: nothing to audit for ${rules.join(', ')}`,
+      evidence,
+    };
+  }
+
+  return {
+    status: 'PASS',
+    reason: `accessibility_audit: within thresholds (${summaries.join('; ')})`,
+    evidence,
+  };
+}
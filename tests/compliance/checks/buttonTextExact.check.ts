@@ -1,5 +1,6 @@
 import type { Locator, Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { withElementEvidence, type ElementCapture } from '../engine/evidence';
 import type { SiteProfile } from '../site/siteProfile';
 
 function normalizeButtonText(text: string): string {
@@ -8,9 +9,9 @@ function normalizeButtonText(text: string): string {
 
 function buildExpectedRegex(expectedList: string[]): RegExp {
   const escaped = expectedList
-    .map((t) => t.trim())
+    .map(t => t.trim())
     .filter(Boolean)
-    .map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    .map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
   return new RegExp(escaped.join('|'), 'i');
 }
 
@@ -29,10 +30,11 @@ export async function buttonTextExactCheck(
   page: Page,
   req: NormalizedRequirement,
   profile: SiteProfile,
+  capture?: ElementCapture
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
-  const expectedText = req.automation.raw.expected_text as unknown;
+  const expectedText = req.automation.raw.expected_text;
   const expectedList = Array.isArray(expectedText)
-    ? expectedText.map((t) => String(t))
+    ? expectedText.map(t => String(t))
     : profile.i18n.finalizeOrderButtonLabels;
 
   if (!expectedList || expectedList.length === 0) {
@@ -48,7 +50,7 @@ export async function buttonTextExactCheck(
   // Preferred: match the actual button by accessible name against expected labels.
   candidates.push(page.getByRole('button', { name: buildExpectedRegex(expectedList) }));
   // Fallbacks (site-specific selectors), filtered later by visibility.
-  candidates.push(...selectors.map((s) => page.locator(s)));
+  candidates.push(...selectors.map(s => page.locator(s)));
 
   const button = await firstVisible(candidates);
   if (!button) {
@@ -60,24 +62,34 @@ export async function buttonTextExactCheck(
   }
 
   const actual = normalizeButtonText((await button.innerText()) || '');
-  const normalizedExpected = expectedList.map((t) => normalizeButtonText(t));
+  const normalizedExpected = expectedList.map(t => normalizeButtonText(t));
 
   const ok = normalizedExpected.includes(actual);
   if (!ok) {
     return {
       status: 'FAIL',
       reason: `button_text_exact: actual="${actual}" did not match expected list`,
-      evidence: {
-        url: page.url(),
-        selectorsUsed: selectors,
-        matchedSnippets: [actual, ...normalizedExpected.slice(0, 5)],
-      },
+      evidence: await withElementEvidence(
+        {
+          url: page.url(),
+          selectorsUsed: selectors,
+          matchedSnippets: [actual, ...normalizedExpected.slice(0, 5)],
+        },
+        [button],
+        'FAIL',
+        capture
+      ),
     };
   }
 
   return {
     status: 'PASS',
     reason: 'button_text_exact: matched expected text',
-    evidence: { url: page.url(), selectorsUsed: selectors, matchedSnippets: [actual] },
+    evidence: await withElementEvidence(
+      { url: page.url(), selectorsUsed: selectors, matchedSnippets: [actual] },
+      [button],
+      'PASS',
+      capture
+    ),
   };
 }
@@ -1,5 +1,6 @@
 import type { Locator, Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { withElementEvidence, type ElementCapture } from '../engine/evidence';
 import type { SiteProfile } from '../site/siteProfile';
 
 async function firstVisibleLocator(candidates: Locator[]): Promise<Locator | null> {
@@ -15,9 +16,9 @@ async function firstVisibleLocator(candidates: Locator[]): Promise<Locator | nul
 
 function buildLabelRegex(labels: string[]): RegExp {
   const escaped = labels
-    .map((l) => l.trim())
+    .map(l => l.trim())
     .filter(Boolean)
-    .map((l) => l.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    .map(l => l.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
   return new RegExp(escaped.join('|'), 'i');
 }
 
@@ -25,8 +26,11 @@ export async function checkboxStateCheck(
   page: Page,
   req: NormalizedRequirement,
   profile: SiteProfile,
+  capture?: ElementCapture
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
-  const expectedState = String(req.automation.raw.expected_state || '').toLowerCase().trim();
+  const expectedState = String(req.automation.raw.expected_state || '')
+    .toLowerCase()
+    .trim();
   if (expectedState !== 'checked' && expectedState !== 'unchecked') {
     return {
       status: 'SKIPPED',
@@ -36,7 +40,7 @@ export async function checkboxStateCheck(
   }
 
   const selectors = profile.selectors.checkoutTermsCheckbox || [];
-  const selectorLocators = selectors.map((s) => page.locator(s));
+  const selectorLocators = selectors.map(s => page.locator(s));
 
   const labelRegex = buildLabelRegex(profile.i18n.termsCheckboxLabels || []);
   const labelLocator = page.getByRole('checkbox', { name: labelRegex });
@@ -57,13 +61,23 @@ export async function checkboxStateCheck(
     return {
       status: 'FAIL',
       reason: `checkbox_state: expected ${expectedState} but was ${actualChecked ? 'checked' : 'unchecked'}`,
-      evidence: { url: page.url(), selectorsUsed: selectors },
+      evidence: await withElementEvidence(
+        { url: page.url(), selectorsUsed: selectors },
+        [checkbox],
+        'FAIL',
+        capture
+      ),
     };
   }
 
   return {
     status: 'PASS',
     reason: `checkbox_state: is ${expectedState}`,
-    evidence: { url: page.url(), selectorsUsed: selectors },
+    evidence: await withElementEvidence(
+      { url: page.url(), selectorsUsed: selectors },
+      [checkbox],
+      'PASS',
+      capture
+    ),
   };
 }
@@ -0,0 +1,231 @@
+import type { Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { FOOTER_SELECTOR, type CrawlSession } from '../engine/crawl';
+
+export const IDENTITY_PARTS = ['idno', 'legal_form', 'address'] as const;
+export type IdentityPart = (typeof IDENTITY_PARTS)[number];
+
+/** Legal forms as written on Moldovan sites (RO abbreviation or full name, RU equivalents). */
+const LEGAL_FORMS: { form: string; re: RegExp }[] = [
+  {
+    form: 'SRL',
+    re: /(?<![\p{L}])(?:S\.?\s?R\.?\s?L\.?|Societatea cu R[ăa]spundere Limitat[ăa]|ООО|Общество с ограниченной ответственностью)(?![\p{L}])/iu,
+  },
+  {
+    form: 'SA',
+    re: /(?<![\p{L}])(?:S\.A\.|SA|Societatea pe Ac[țţt]iuni|АО|Акционерное общество)(?![\p{L}])/u,
+  },
+  {
+    form: 'Î.C.S.',
+    re: /(?<![\p{L}])(?:[ÎI]\.\s?C\.\s?S\.?|[ÎI]CS|[ÎI]ntreprinderea cu Capital Str[ăa]in|Предприятие с иностранным капиталом)(?![\p{L}])/iu,
+  },
+  {
+    form: 'Î.I.',
+    re: /(?<![\p{L}])(?:[ÎI]\.\s?I\.|[ÎI]ntreprindere Individual[ăa]|ИП|Индивидуальное предприятие)(?![\p{L}])/u,
+  },
+];
+
+const QUOTED_NAME = `[«"„“']([^»"”'\\n]{2,60})[»"”']`;
+
+const LOCALITY_RE =
+  /(?<![\p{L}])(?:mun\.|municipiul|or\.|ora[șş]ul|s\.|satul|com\.|comuna|г\.|город|мун\.|с\.|село)\s*([\p{Lu}][\p{L}-]+(?:\s[\p{Lu}][\p{L}-]+)?)|(?<![\p{L}])(Chi[șş]in[ăa]u|B[ăa]l[țţ]i|Cahul|Orhei|Ungheni|Soroca|Comrat|Tiraspol|Кишин[её]в|Бельцы)(?![\p{L}])/u;
+const STREET_RE =
+  /(?<![\p{L}])(?:str\.|strada|bd\.|bul\.|bulevardul|[șş]os\.|[șş]oseaua|pia[țţ]a|al\.|aleea|ул\.|улица|бул\.|бульвар|пр\.|проспект|ш\.|шоссе)\s*([\p{L}][\p{L}.'’\- ]{1,50}?)\s*,?\s*(?:nr\.?|№|д\.)?\s*(\d+[\p{L}]?(?:\/\d+)?)(?![\d])/u;
+
+export type IdnoCandidate = { value: string; checksumOk: boolean; legalEntity: boolean };
+
+export type ExtractedEntity = {
+  idno: IdnoCandidate[];
+  legalForm?: string;
+  name?: string;
+  locality?: string;
+  street?: string;
+  number?: string;
+  sourceUrl: string;
+  snippets: string[];
+};
+
+/**
+ * IDNO/IDNP control digit: the first 12 digits weighted 7, 3, 1 (repeating), sum modulo 10, as implemented by
+ * stdnum-js (`md/idno`, https://github.com/koblas/stdnum-js). There is no public spec from the state register,
+ * so a mismatch is only a warning. IDNOs of legal entities start with 1; 0 and 2 are personal codes (IDNP).
+ */
+export function checkIdno(value: string): IdnoCandidate {
+  const digits = value.split('').map(Number);
+  const weights = [7, 3, 1];
+  const sum = digits.slice(0, 12).reduce((acc, d, i) => acc + d * weights[i % 3], 0);
+  return {
+    value,
+    checksumOk: digits.length === 13 && sum % 10 === digits[12],
+    legalEntity: value.startsWith('1'),
+  };
+}
+
+function snippetAround(text: string, index: number, radius: number): string {
+  const start = Math.max(0, index - radius);
+  const end = Math.min(text.length, index + radius);
+  return text.slice(start, end).replace(/\s+/g, ' ').trim();
+}
+
+function extractEntity(url: string, text: string): ExtractedEntity {
+  const entity: ExtractedEntity = { idno: [], sourceUrl: url, snippets: [] };
+
+  const seen = new Set<string>();
+  for (const m of text.matchAll(/(?<!\d)\d{13}(?!\d)/g)) {
+    if (seen.has(m[0])) continue;
+    seen.add(m[0]);
+    entity.idno.push(checkIdno(m[0]));
+    entity.snippets.push(`IDNO candidate: ${snippetAround(text, m.index, 60)}`);
+  }
+
+  // The form written first wins: "Î.C.S. «X» S.R.L." is a foreign-capital company organised as an SRL.
+  const forms = LEGAL_FORMS.map(({ form, re }) => ({ form, m: re.exec(text) }))
+    .filter((f): f is { form: string; m: RegExpExecArray } => !!f.m)
+    .sort((a, b) => a.m.index - b.m.index);
+  if (forms.length) {
+    const { form, m } = forms[0];
+    entity.legalForm = form;
+    // `SRL "Name"` or `"Name" SRL`, within a few characters of the legal form.
+    const around = text.slice(Math.max(0, m.index - 70), m.index + m[0].length + 70);
+    const after = new RegExp(
+      `${m[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*${QUOTED_NAME}`,
+      'u'
+    ).exec(around);
+    const before = new RegExp(
+      `${QUOTED_NAME}\\s*,?\\s*${m[0].replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`,
+      'u'
+    ).exec(around);
+    entity.name = (after?.[1] || before?.[1])?.trim();
+    entity.snippets.push(`legal form: ${snippetAround(text, m.index, 60)}`);
+  }
+
+  const street = STREET_RE.exec(text);
+  if (street) {
+    entity.street = street[0]
+      .slice(0, street[0].length - street[2].length)
+      .replace(/[\s,]*(?:nr\.?|№|д\.)?\s*$/u, '')
+      .trim();
+    entity.number = street[2];
+    // The locality is expected next to the street; fall back to the first one on the page.
+    const near = text.slice(Math.max(0, street.index - 120), street.index + street[0].length + 120);
+    const locality = LOCALITY_RE.exec(near) || LOCALITY_RE.exec(text);
+    entity.locality = locality ? locality[0].trim() : undefined;
+    entity.snippets.push(`address: ${snippetAround(text, street.index, 80)}`);
+  } else {
+    const locality = LOCALITY_RE.exec(text);
+    entity.locality = locality ? locality[0].trim() : undefined;
+  }
+
+  return entity;
+}
+
+/** Richest extraction wins: most parts found, a checksum-valid IDNO first. */
+function score(entity: ExtractedEntity): number {
+  return (
+    (entity.idno.some(c => c.checksumOk && c.legalEntity) ? 4 : entity.idno.length ? 1 : 0) +
+    (entity.legalForm ? 2 : 0) +
+    (entity.name ? 1 : 0) +
+    (entity.locality ? 1 : 0) +
+    (entity.street && entity.number ? 2 : 0)
+  );
+}
+
+function describeEntity(entity: ExtractedEntity, withSource = true): string {
+  const idno = entity.idno.find(c => c.checksumOk && c.legalEntity) || entity.idno[0];
+  const address = [entity.locality, entity.street, entity.number && `nr. ${entity.number}`]
+    .filter(Boolean)
+    .join(', ');
+  return [
+    ...(withSource ? [`entity @ ${entity.sourceUrl}:`] : []),
+    `name=${entity.name ? `"${entity.name}"` : '?'}`,
+    `legal form=${entity.legalForm || '?'}`,
+    `IDNO=${idno ? `${idno.value}${idno.checksumOk ? '' : ' (bad checksum)'}` : '?'}`,
+    `address=${address || '?'}`,
+  ].join(' ');
+}
+
+async function readSources(
+  page: Page,
+  crawl?: CrawlSession
+): Promise<{ url: string; text: string }[]> {
+  if (crawl) return crawl.pagesFrom(page);
+  const footer = await page
+    .locator(FOOTER_SELECTOR)
+    .allInnerTexts()
+    .catch(() => [] as string[]);
+  const body = await page.locator('body').innerText();
+  // The footer is looked at first: a product or contact page may quote third parties in the body.
+  return [
+    ...(footer.join('\n').trim()
+      ? [{ url: `${page.url()} (footer)`, text: footer.join('\n') }]
+      : []),
+    { url: page.url(), text: body },
+  ];
+}
+
+export async function companyIdentityCheck(
+  page: Page,
+  req: NormalizedRequirement,
+  crawl?: CrawlSession
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const rawRequire = req.automation.raw.require;
+  const required = (
+    Array.isArray(rawRequire) && rawRequire.length ? rawRequire.map(String) : [...IDENTITY_PARTS]
+  ).filter((p): p is IdentityPart => (IDENTITY_PARTS as readonly string[]).includes(p));
+
+  const sources = await readSources(page, crawl);
+  const entities = sources.map(s => extractEntity(s.url, s.text));
+  const best = entities.reduce((a, b) => (score(b) > score(a) ? b : a));
+  const allIdno = entities
+    .flatMap(e => e.idno)
+    .filter((c, i, all) => all.findIndex(x => x.value === c.value) === i);
+  const validIdno = allIdno.filter(c => c.checksumOk && c.legalEntity);
+
+  const evidence = {
+    url: page.url(),
+    matchedSnippets: [
+      describeEntity(best),
+      ...[...new Set(entities.flatMap(e => e.snippets))].slice(0, 12),
+    ],
+    ...(score(best) ? { satisfiedByUrl: best.sourceUrl.replace(/ \(footer\)$/, '') } : {}),
+    ...(crawl ? { crawledUrls: sources.map(s => s.url) } : {}),
+  };
+
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  if (required.includes('idno')) {
+    if (!allIdno.length) problems.push('no 13-digit IDNO found');
+    else if (!allIdno.some(c => c.checksumOk)) {
+      warnings.push(
+        `IDNO control digit does not match (${allIdno.map(c => c.value).join(', ')}); verify it in the state register`
+      );
+    } else if (!validIdno.length) {
+      warnings.push(
+        `13-digit code ${allIdno.find(c => c.checksumOk)!.value} is a personal code (IDNP), not a company IDNO`
+      );
+    }
+  }
+  if (required.includes('legal_form') && !best.legalForm)
+    problems.push('legal form (SRL/SA/Î.C.S./Î.I.) not found');
+  if (required.includes('address')) {
+    const missing = [
+      best.locality ? '' : 'locality',
+      best.street ? '' : 'street',
+      best.number ? '' : 'number',
+    ].filter(Boolean);
+    if (missing.length)
+      problems.push(`registered address incomplete (missing ${missing.join(', ')})`);
+  }
+
+  if (problems.length) {
+    return { status: 'FAIL', reason: `company_identity: ${problems.join('; ')}`, evidence };
+  }
+  if (warnings.length) {
+    return { status: 'WARN', reason: `company_identity: ${warnings.join('; ')}`, evidence };
+  }
+  return {
+    status: 'PASS',
+    reason: `company_identity: ${required.join(', ')} found (${describeEntity(best, false)}); compare with the state register`,
+    evidence,
+  };
+}
@@ -1,12 +1,13 @@
 import type { Frame, Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { withElementEvidence, type ElementCapture } from '../engine/evidence';
 import type { SiteProfile } from '../site/siteProfile';
 
 function buildAnyRegex(parts: string[]): RegExp {
   const escaped = parts
-    .map((p) => p.trim())
+    .map(p => p.trim())
     .filter(Boolean)
-    .map((p) => {
+    .map(p => {
       const raw = p.trim();
       const escapedPart = raw.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
       // For very short ASCII tokens (e.g. "OK"), require word boundaries to avoid accidental matches.
@@ -65,7 +66,8 @@ async function findFirstAction(container: any, name: RegExp) {
         const tag = n.tagName.toLowerCase();
         const text = (n.textContent || '').replace(/\s+/g, ' ').trim();
         const ariaLabel = (n.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim();
-        const value = tag === 'input' ? (n.getAttribute('value') || '').replace(/\s+/g, ' ').trim() : '';
+        const value =
+          tag === 'input' ? (n.getAttribute('value') || '').replace(/\s+/g, ' ').trim() : '';
         return { tag, text, ariaLabel, value };
       })
       .catch(() => null);
@@ -94,7 +96,8 @@ async function sampleActionCandidates(container: any): Promise<string[]> {
         const tag = n.tagName.toLowerCase();
         const text = (n.textContent || '').replace(/\s+/g, ' ').trim();
         const ariaLabel = (n.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim();
-        const value = tag === 'input' ? (n.getAttribute('value') || '').replace(/\s+/g, ' ').trim() : '';
+        const value =
+          tag === 'input' ? (n.getAttribute('value') || '').replace(/\s+/g, ' ').trim() : '';
         return { tag, text, ariaLabel, value };
       })
       .catch(() => null);
@@ -126,12 +129,20 @@ async function checkInContainer(container: Page | Frame, profile: SiteProfile, a
       const accept = await findFirstAction(dialog, acceptName);
       const acceptVisible = await isActionVisible(accept);
       if (acceptVisible) {
-        return { root: dialog, selectorUsed: 'role=dialog + hasText(cookie)', accept, containerUrl: container.url() };
+        return {
+          root: dialog,
+          selectorUsed: 'role=dialog + hasText(cookie)',
+          accept,
+          containerUrl: container.url(),
+        };
       }
     }
   }
 
-  const alertDialog = container.getByRole?.('alertdialog')?.filter({ hasText: cookieWord })?.first?.();
+  const alertDialog = container
+    .getByRole?.('alertdialog')
+    ?.filter({ hasText: cookieWord })
+    ?.first?.();
   if (alertDialog) {
     const visible = await alertDialog.isVisible({ timeout: 1500 }).catch(() => false);
     if (visible) {
@@ -171,11 +182,24 @@ async function checkInContainer(container: Page | Frame, profile: SiteProfile, a
   return null;
 }
 
-export async function cookieBannerComplianceCheck(
+export type BannerAction = { locator: any; matchedLabel: string };
+
+export type CookieBannerActions = {
+  root: { locator: any; selectorUsed: string };
+  containerUrl: string;
+  accept: BannerAction | null;
+  reject: BannerAction | null;
+  manage: BannerAction | null;
+  acceptVisible: boolean;
+  rejectVisible: boolean;
+  manageVisible: boolean;
+};
+
+/** Locates the consent banner (any frame) and its Accept/Reject/Manage actions using the profile's i18n labels. */
+export async function findCookieBannerActions(
   page: Page,
-  _req: NormalizedRequirement,
-  profile: SiteProfile,
-): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  profile: SiteProfile
+): Promise<CookieBannerActions> {
   const acceptName = buildAnyRegex(profile.i18n.cookieAccept);
   const rejectName = buildAnyRegex(profile.i18n.cookieReject);
   const manageName = buildAnyRegex(profile.i18n.cookieManage);
@@ -185,14 +209,12 @@ export async function cookieBannerComplianceCheck(
 
   // Some CMPs render inside iframes; scan all frames and choose the first banner root that contains Accept.
   const frames = page.frames();
-  let match:
-    | {
-        root: any;
-        selectorUsed: string;
-        accept: { locator: any; matchedLabel: string } | null;
-        containerUrl: string;
-      }
-    | null = null;
+  let match: {
+    root: any;
+    selectorUsed: string;
+    accept: BannerAction | null;
+    containerUrl: string;
+  } | null = null;
   for (const frame of frames) {
     match = await checkInContainer(frame, profile, acceptName);
     if (match) break;
@@ -216,13 +238,52 @@ export async function cookieBannerComplianceCheck(
   const rejectVisible = await isActionVisible(reject);
   const manageVisible = await isActionVisible(manage);
 
+  return {
+    root,
+    containerUrl,
+    accept,
+    reject,
+    manage,
+    acceptVisible,
+    rejectVisible,
+    manageVisible,
+  };
+}
+
+export async function cookieBannerComplianceCheck(
+  page: Page,
+  _req: NormalizedRequirement,
+  profile: SiteProfile,
+  capture?: ElementCapture
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const {
+    root,
+    containerUrl,
+    accept,
+    reject,
+    manage,
+    acceptVisible,
+    rejectVisible,
+    manageVisible,
+  } = await findCookieBannerActions(page, profile);
+
   const selectorsUsed = [`cookieBannerRoot=${root.selectorUsed}`, `frameUrl=${containerUrl}`];
+  // The `body` fallback means no banner was found: outlining the whole page would not point at anything.
+  const bannerElements = [
+    ...(root.selectorUsed === 'body' ? [] : [root.locator]),
+    ...(accept ? [accept.locator] : []),
+  ];
 
   if (acceptVisible && rejectVisible && manageVisible) {
     return {
       status: 'PASS',
       reason: 'cookie_banner_compliance: Accept/Reject/Manage all visible',
-      evidence: { url: page.url(), selectorsUsed },
+      evidence: await withElementEvidence(
+        { url: page.url(), selectorsUsed },
+        bannerElements,
+        'PASS',
+        capture
+      ),
     };
   }
 
@@ -234,6 +295,11 @@ export async function cookieBannerComplianceCheck(
   return {
     status: 'FAIL',
     reason: `cookie_banner_compliance: missing buttons (accept=${acceptVisible}, reject=${rejectVisible}, manage=${manageVisible})`,
-    evidence: { url: page.url(), selectorsUsed, matchedSnippets: [...labels, ...debugTexts] },
+    evidence: await withElementEvidence(
+      { url: page.url(), selectorsUsed, matchedSnippets: [...labels, ...debugTexts] },
+      bannerElements,
+      'FAIL',
+      capture
+    ),
   };
 }
@@ -0,0 +1,211 @@
+import type { Browser, Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import type { SiteProfile } from '../site/siteProfile';
+import type { Vendor, VendorCategory } from '../engine/vendors';
+import { classifyStorageItem, vendorCatalogFor } from '../engine/vendors';
+import { findCookieBannerActions } from './cookieBanner.check';
+
+type StoredItem = { kind: 'cookie' | 'localStorage'; name: string; domain?: string };
+type ClassifiedItem = StoredItem & { vendor?: string; category: VendorCategory | 'unknown' };
+
+type PhaseResult = {
+  firstVisit: StoredItem[];
+  /** Storage after the consent action and a reload; null when the action could not be performed. */
+  afterAction: StoredItem[] | null;
+  actionLabel?: string;
+  bannerSelector: string;
+  note?: string;
+};
+
+async function snapshot(page: Page): Promise<StoredItem[]> {
+  const cookies = await page.context().cookies();
+  const keys = await page
+    .evaluate(() => Object.keys(window.localStorage))
+    .catch(() => [] as string[]);
+  return [
+    ...cookies.map(c => ({ kind: 'cookie' as const, name: c.name, domain: c.domain })),
+    ...keys.map(name => ({ kind: 'localStorage' as const, name })),
+  ];
+}
+
+/** First visit in a fresh context, then Reject or Accept, then a reload so consent-gated scripts get their chance. */
+async function runPhase(
+  browser: Browser,
+  url: string,
+  profile: SiteProfile,
+  action: 'reject' | 'accept',
+  settleMs: number
+): Promise<PhaseResult> {
+  const context = await browser.newContext({});
+  try {
+    const page = await context.newPage();
+    await page.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    await page.waitForTimeout(settleMs);
+    const firstVisit = await snapshot(page);
+
+    const banner = await findCookieBannerActions(page, profile);
+    const target = action === 'reject' ? banner.reject : banner.accept;
+    const visible = action === 'reject' ? banner.rejectVisible : banner.acceptVisible;
+    const bannerSelector = banner.root.selectorUsed;
+    if (!target || !visible) {
+      return { firstVisit, afterAction: null, bannerSelector, note: `${action} action not found` };
+    }
+
+    try {
+      await target.locator.click({ timeout: 5000 });
+    } catch (e: any) {
+      return {
+        firstVisit,
+        afterAction: null,
+        bannerSelector,
+        note: `${action} click failed (${e?.message || 'unknown error'})`,
+      };
+    }
+    await page.waitForTimeout(settleMs);
+    await page.reload({ waitUntil: 'domcontentloaded', timeout: 30000 });
+    await page.waitForTimeout(settleMs);
+
+    return {
+      firstVisit,
+      afterAction: await snapshot(page),
+      actionLabel: target.matchedLabel,
+      bannerSelector,
+    };
+  } finally {
+    await context.close().catch(() => undefined);
+  }
+}
+
+function classify(vendors: Vendor[], items: StoredItem[]): ClassifiedItem[] {
+  const seen = new Set<string>();
+  const out: ClassifiedItem[] = [];
+  for (const item of items) {
+    const key = `${item.kind}|${item.name}|${item.domain || ''}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+    const vendor = classifyStorageItem(vendors, item);
+    out.push({ ...item, vendor: vendor?.name, category: vendor?.category || 'unknown' });
+  }
+  return out;
+}
+
+function isNonEssential(item: ClassifiedItem): boolean {
+  return item.category === 'analytics' || item.category === 'marketing';
+}
+
+/** "Google Analytics (analytics): _ga, _gid" per vendor; unknown items are grouped by domain. */
+function describeItems(items: ClassifiedItem[]): string[] {
+  const groups = new Map<string, string[]>();
+  for (const item of items) {
+    const group = item.vendor
+      ? `${item.vendor} (${item.category})`
+      : `unknown${item.domain ? ` @ ${item.domain}` : ' localStorage'}`;
+    groups.set(group, [
+      ...(groups.get(group) || []),
+      item.kind === 'localStorage' ? `localStorage:${item.name}` : item.name,
+    ]);
+  }
+  return [...groups.entries()].map(([group, names]) => `${group}: ${names.join(', ')}`);
+}
+
+export async function cookieLifecycleCheck(
+  page: Page,
+  browser: Browser,
+  req: NormalizedRequirement,
+  profile: SiteProfile
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const url = page.url();
+  const settleMs =
+    Number(req.automation.raw.settle_ms) > 0 ? Number(req.automation.raw.settle_ms) : 3000;
+
+  let vendors: Vendor[];
+  try {
+    vendors = vendorCatalogFor(profile);
+  } catch (e: any) {
+    return {
+      status: 'SKIPPED',
+      reason: `cookie_lifecycle: ${e?.message || 'cannot load vendor catalog'}`,
+      evidence: { url },
+    };
+  }
+
+  let reject: PhaseResult;
+  let accept: PhaseResult;
+  try {
+    reject = await runPhase(browser, url, profile, 'reject', settleMs);
+    accept = await runPhase(browser, url, profile, 'accept', settleMs);
+  } catch (e: any) {
+    return {
+      status: 'SKIPPED',
+      reason: `cookie_lifecycle: navigation failed (${e?.message || 'unknown error'})`,
+      evidence: { url },
+    };
+  }
+
+  const firstVisit = classify(vendors, [...reject.firstVisit, ...accept.firstVisit]);
+  const afterReject = reject.afterAction ? classify(vendors, reject.afterAction) : null;
+  const afterAccept = accept.afterAction ? classify(vendors, accept.afterAction) : null;
+
+  const beforeConsent = firstVisit.filter(isNonEssential);
+  const survivedReject = (afterReject || []).filter(isNonEssential);
+  const unknown = [...firstVisit, ...(afterReject || [])].filter(i => i.category === 'unknown');
+
+  const selectorsUsed = [
+    `cookieBannerRoot=${reject.bannerSelector}`,
+    ...(reject.actionLabel ? [`reject=${reject.actionLabel}`] : []),
+    ...(accept.actionLabel ? [`accept=${accept.actionLabel}`] : []),
+  ];
+  const section = (title: string, items: ClassifiedItem[] | null, note?: string) =>
+    items
+      ? [`${title}: ${items.length} item(s)`, ...describeItems(items).map(line => `  ${line}`)]
+      : [`${title}: not observed (${note || 'no action'})`];
+  const matchedSnippets = [
+    ...section('first visit', firstVisit),
+    ...section('after Reject + reload', afterReject, reject.note),
+    ...section('after Accept + reload', afterAccept, accept.note),
+  ];
+  const evidence = { url, selectorsUsed, matchedSnippets };
+
+  if (beforeConsent.length || survivedReject.length) {
+    const parts = [
+      beforeConsent.length
+        ? `${beforeConsent.length} analytics/marketing item(s) before consent`
+        : '',
+      survivedReject.length ? `${survivedReject.length} present after Reject` : '',
+    ].filter(Boolean);
+    const vendorsNamed = [
+      ...new Set([...beforeConsent, ...survivedReject].map(i => i.vendor)),
+    ].join(', ');
+    return {
+      status: 'FAIL',
+      reason: `cookie_lifecycle: ${parts.join(', ')} (${vendorsNamed})`,
+      evidence,
+    };
+  }
+
+  if (!afterReject) {
+    return {
+      status: 'WARN',
+      reason: `cookie_lifecycle: nothing non-essential before consent, but Reject could not be verified (${reject.note})`,
+      evidence,
+    };
+  }
+
+  if (unknown.length) {
+    return {
+      status: 'WARN',
+      reason: `cookie_lifecycle: ${unknown.length} unclassified item(s) before consent/after Reject (add them to the vendor catalog)`,
+      evidence,
+    };
+  }
+
+  return {
+    status: 'PASS',
+    reason: `cookie_lifecycle: no analytics/marketing storage before consent or after Reject (${
+      afterAccept
+        ? `${afterAccept.filter(isNonEssential).length} non-essential item(s) after Accept`
+        : 'Accept not observed'
+    })`,
+    evidence,
+  };
+}
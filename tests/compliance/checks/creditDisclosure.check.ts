@@ -0,0 +1,303 @@
+import type { Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import type { SiteProfile } from '../site/siteProfile';
+import { collectProductLinks } from './productLinks';
+import { ProductDetailPage } from '../../shared/page-objects/product-detail.page';
+import type { CreditModalComponent } from '../../shared/page-objects/components/credit-modal.component';
+import { parsePriceSafe } from '../../shared/utils/price-utils';
+
+export const CREDIT_FIGURES = ['dae', 'total', 'cost', 'nominal_rate'] as const;
+export type CreditFigure = (typeof CREDIT_FIGURES)[number];
+
+type ProviderFigures = {
+  provider: string;
+  term?: number;
+  monthly?: number;
+  total?: number;
+  cost?: number;
+  nominalRate?: number;
+  dae?: number;
+};
+
+type CreditExtraction = {
+  productUrl: string;
+  price: number;
+  providers: ProviderFigures[];
+  /** Providers whose tab could not be selected; their figures are not read (they would be the previous provider's). */
+  unselected: string[];
+};
+
+/** Labels as printed in the calculator (RO/RU); the figure follows within a few characters. */
+const AMOUNT = '([\\d\\s.,]+)\\s*(?:lei|лей|mdl)';
+const PERCENT = '([\\d.,]+)\\s*%';
+const FIGURE_RE = {
+  dae: new RegExp(
+    `(?:\\bDAE\\b|\\bAPR\\b|dob[âa]nda anual[aă] efectiv[aă]|ГПЭС|эффективная ставка)[^0-9%]{0,40}${PERCENT}`,
+    'i'
+  ),
+  nominalRate: new RegExp(
+    `(?:rata dob[âa]nzii|dob[âa]nd[aă] nominal[aă]|dob[âa]nda anual[aă](?! efectiv)|процентная ставка|номинальная ставка)[^0-9%]{0,40}${PERCENT}`,
+    'i'
+  ),
+  total: new RegExp(
+    `(?:suma total[aă](?: de plat[aă])?|total de plat[aă]|общая сумма(?: к оплате)?|итого к оплате)[^0-9]{0,40}${AMOUNT}`,
+    'i'
+  ),
+  cost: new RegExp(
+    `(?:costul(?: total al)? creditului|suprapl[aă]t[aă]|переплата|стоимость кредита)[^0-9]{0,40}${AMOUNT}`,
+    'i'
+  ),
+  term: /(\d{1,2})\s*(?:rate|luni|мес|месяц\S*|платеж\S*)/i,
+};
+
+function percentOf(text: string, re: RegExp): number | undefined {
+  const m = re.exec(text);
+  if (!m) return undefined;
+  const n = Number(m[1].replace(',', '.'));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function amountOf(text: string, re: RegExp): number | undefined {
+  const m = re.exec(text);
+  const n = m ? parsePriceSafe(m[1]) : 0;
+  return n > 0 ? n : undefined;
+}
+
+/**
+ * Term of the selected option only (the option that holds the monthly payment, or the chosen `<option>`). The term list
+ * shows every option, so the first "NN luni" in the modal is usually not the chosen term.
+ */
+async function readSelectedTerm(modal: CreditModalComponent): Promise<number | undefined> {
+  const options = modal.termSelector;
+  const selected =
+    (await options
+      .filter({ has: modal.monthlyPayment })
+      .first()
+      .innerText({ timeout: 1000 })
+      .catch(() => '')) ||
+    (await options
+      .locator('option:checked')
+      .first()
+      .innerText({ timeout: 1000 })
+      .catch(() => ''));
+  return Number(FIGURE_RE.term.exec(selected)?.[1]) || undefined;
+}
+
+async function readFigures(
+  modal: CreditModalComponent,
+  provider: string
+): Promise<ProviderFigures> {
+  const text = (
+    await modal.modal
+      .first()
+      .innerText()
+      .catch(() => '')
+  ).replace(/\u00a0/g, ' ');
+  const monthly = await modal.getMonthlyPayment().catch(() => 0);
+  const total = (await modal.getTotalAmount().catch(() => 0)) || amountOf(text, FIGURE_RE.total);
+  const term = await readSelectedTerm(modal);
+
+  return {
+    provider,
+    term,
+    monthly: monthly > 0 ? monthly : undefined,
+    total: total || undefined,
+    cost: amountOf(text, FIGURE_RE.cost),
+    nominalRate: percentOf(text, FIGURE_RE.nominalRate),
+    dae: percentOf(text, FIGURE_RE.dae),
+  };
+}
+
+/** Opens the calculator on the first candidate product that offers credit and reads every provider's figures. */
+async function extractCreditFigures(
+  page: Page,
+  candidates: string[],
+  maxProviders: number
+): Promise<CreditExtraction | null> {
+  const worker = await page.context().newPage();
+  try {
+    const pdp = new ProductDetailPage(worker);
+    for (const url of candidates) {
+      try {
+        await worker.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+        const modal = (await pdp.openCreditCalculator()) as CreditModalComponent;
+        await modal.waitForVisible();
+
+        const price = await pdp.getPrice().catch(() => 0);
+        const names = (await modal.getCreditProviders().catch(() => [] as string[])).slice(
+          0,
+          maxProviders
+        );
+        const providers: ProviderFigures[] = [];
+        const unselected: string[] = [];
+        if (names.length === 0) {
+          providers.push(await readFigures(modal, 'default'));
+        }
+        for (const name of names) {
+          const selected = await modal
+            .selectProvider(name)
+            .then(() => true)
+            .catch(() => false);
+          if (selected) providers.push(await readFigures(modal, name));
+          else unselected.push(name);
+        }
+        return { productUrl: url, price, providers, unselected };
+      } catch {
+        // No credit button/calculator on this product: try the next candidate.
+      }
+    }
+    return null;
+  } finally {
+    await worker.close().catch(() => undefined);
+  }
+}
+
+/** Several requirements (5.1–5.4) read the same calculator: extract once per route page. */
+const extractionCache = new WeakMap<
+  Page,
+  { url: string; extraction: Promise<CreditExtraction | null> }
+>();
+
+function describe(p: ProviderFigures, price: number): string {
+  const show = (label: string, v: number | undefined, unit = ''): string =>
+    `${label} ${v === undefined ? '—' : `${v}${unit}`}`;
+  return [
+    `${p.provider}: ${show('price', price)}`,
+    show('term', p.term),
+    show('monthly', p.monthly),
+    show('total', p.total),
+    show('cost', p.cost),
+    show('nominal', p.nominalRate, '%'),
+    show('DAE', p.dae, '%'),
+  ].join(', ');
+}
+
+/**
+ * Arithmetic consistency of one provider's offer:
+ * monthly × term ≈ total (only when the selected term was read), cost ≈ total − price, DAE ≥ nominal rate.
+ */
+function consistencyIssues(
+  p: ProviderFigures,
+  price: number,
+  totalTolerancePct: number,
+  costTolerance: number
+): string[] {
+  const issues: string[] = [];
+  if (p.monthly !== undefined && p.term !== undefined && p.total !== undefined) {
+    const expected = p.monthly * p.term;
+    if (Math.abs(expected - p.total) > (p.total * totalTolerancePct) / 100) {
+      issues.push(`${p.provider}: monthly × term = ${expected.toFixed(2)} but total is ${p.total}`);
+    }
+  }
+  if (p.total !== undefined && p.cost !== undefined && price > 0) {
+    const expected = p.total - price;
+    if (Math.abs(expected - p.cost) > costTolerance) {
+      issues.push(
+        `${p.provider}: total − price = ${expected.toFixed(2)} but credit cost is ${p.cost}`
+      );
+    }
+  }
+  if (p.dae !== undefined && p.nominalRate !== undefined && p.dae + 0.01 < p.nominalRate) {
+    issues.push(`${p.provider}: DAE ${p.dae}% is below the nominal rate ${p.nominalRate}%`);
+  }
+  return issues;
+}
+
+const FIGURE_FIELD: Record<CreditFigure, keyof ProviderFigures> = {
+  dae: 'dae',
+  total: 'total',
+  cost: 'cost',
+  nominal_rate: 'nominalRate',
+};
+
+export async function creditDisclosureCheck(
+  page: Page,
+  req: NormalizedRequirement,
+  profile: SiteProfile
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const raw = req.automation.raw;
+  const required = (Array.isArray(raw.require) ? raw.require : []).filter((f): f is CreditFigure =>
+    (CREDIT_FIGURES as readonly string[]).includes(String(f))
+  );
+  const totalTolerancePct =
+    Number(raw.total_tolerance_pct) > 0 ? Number(raw.total_tolerance_pct) : 2;
+  const costTolerance = Number(raw.cost_tolerance) > 0 ? Number(raw.cost_tolerance) : 5;
+
+  let cached = extractionCache.get(page);
+  if (!cached || cached.url !== page.url()) {
+    const maxProducts = Number(raw.max_products) > 0 ? Number(raw.max_products) : 5;
+    const maxProviders = Number(raw.max_providers) > 0 ? Number(raw.max_providers) : 4;
+    // The route page itself comes first when it is a product page; otherwise products linked from it.
+    const candidates = [page.url(), ...(await collectProductLinks(page, profile, maxProducts))];
+    cached = { url: page.url(), extraction: extractCreditFigures(page, candidates, maxProviders) };
+    extractionCache.set(page, cached);
+  }
+
+  const extraction = await cached.extraction;
+  if (!extraction) {
+    return {
+      status: 'SKIPPED',
+      reason: 'credit_disclosure: no product with a credit calculator found from this page',
+      evidence: { url: page.url() },
+    };
+  }
+
+  const { price, providers, unselected } = extraction;
+  const unread = unselected.map(
+    name => `${name}: provider could not be selected, figures not read`
+  );
+  const termUnknown = providers
+    .filter(p => p.term === undefined && p.monthly !== undefined && p.total !== undefined)
+    .map(p => `${p.provider}: selected term not found, monthly × term not checked`);
+  if (providers.length === 0) {
+    return {
+      status: 'SKIPPED',
+      reason: `credit_disclosure: none of the ${unselected.length} credit provider(s) could be selected`,
+      evidence: { url: extraction.productUrl, matchedSnippets: unread },
+    };
+  }
+
+  const missing = providers.flatMap(p =>
+    required.filter(f => p[FIGURE_FIELD[f]] === undefined).map(f => `${p.provider}: ${f} not shown`)
+  );
+  const inconsistent = providers.flatMap(p =>
+    consistencyIssues(p, price, totalTolerancePct, costTolerance)
+  );
+
+  const evidence = {
+    url: extraction.productUrl,
+    matchedSnippets: [
+      ...missing,
+      ...inconsistent,
+      ...unread,
+      ...termUnknown,
+      ...providers.map(p => describe(p, price)),
+    ],
+  };
+
+  if (missing.length || inconsistent.length) {
+    const parts = [
+      missing.length ? `${missing.length} required figure(s) missing` : '',
+      inconsistent.length ? `${inconsistent.length} arithmetic inconsistency(ies)` : '',
+    ].filter(Boolean);
+    return {
+      status: 'FAIL',
+      reason: `credit_disclosure: ${parts.join(', ')} across ${providers.length} provider(s): ${[...missing, ...inconsistent][0]}`,
+      evidence,
+    };
+  }
+
+  if (unselected.length) {
+    return {
+      status: 'WARN',
+      reason: `credit_disclosure: figures consistent for ${providers.length} provider(s), but ${unselected.length} could not be selected (${unselected.join(', ')})`,
+      evidence,
+    };
+  }
+
+  return {
+    status: 'PASS',
+    reason: `credit_disclosure: ${required.length ? `${required.join(', ')} shown and ` : ''}figures consistent for ${providers.length} provider(s)`,
+    evidence,
+  };
+}
@@ -1,11 +1,13 @@
 import type { Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { withElementEvidence, type ElementCapture } from '../engine/evidence';
 import type { SiteProfile } from '../site/siteProfile';
 
 export async function elementVisibilityCheck(
   page: Page,
   req: NormalizedRequirement,
   profile: SiteProfile,
+  capture?: ElementCapture
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
   const mapping = profile.elementVisibilityById?.[req.id];
   if (!mapping || !mapping.selectors || mapping.selectors.length === 0) {
@@ -17,12 +19,21 @@ export async function elementVisibilityCheck(
   }
 
   for (const selector of mapping.selectors) {
-    const visible = await page.locator(selector).first().isVisible({ timeout: 2000 }).catch(() => false);
+    const visible = await page
+      .locator(selector)
+      .first()
+      .isVisible({ timeout: 2000 })
+      .catch(() => false);
     if (visible) {
       return {
         status: 'PASS',
         reason: 'element_visibility: element is visible',
-        evidence: { url: page.url(), selectorsUsed: [selector] },
+        evidence: await withElementEvidence(
+          { url: page.url(), selectorsUsed: [selector] },
+          [page.locator(selector)],
+          'PASS',
+          capture
+        ),
       };
     }
   }
@@ -30,6 +41,12 @@ export async function elementVisibilityCheck(
   return {
     status: 'FAIL',
     reason: 'element_visibility: none of the mapped selectors were visible',
-    evidence: { url: page.url(), selectorsUsed: mapping.selectors },
+    // Elements that exist but are hidden still tell the reviewer where they are (a null box: not rendered).
+    evidence: await withElementEvidence(
+      { url: page.url(), selectorsUsed: mapping.selectors },
+      mapping.selectors.map(s => page.locator(s)),
+      'FAIL',
+      capture
+    ),
   };
 }
@@ -0,0 +1,298 @@
+import type { Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { installDomHelpers } from '../engine/dom';
+import { withElementEvidence, type ElementCapture } from '../engine/evidence';
+import type { SiteProfile } from '../site/siteProfile';
+
+export const CONSENT_CATEGORIES = ['privacy', 'terms', 'marketing', 'insurance'] as const;
+export type ConsentCategory = (typeof CONSENT_CATEGORIES)[number];
+
+/** Label wording per consent category (RO/RU/EN); the profile's `termsCheckboxLabels` extend `terms`. */
+const CATEGORY_PATTERNS: Record<ConsentCategory, string[]> = {
+  privacy: [
+    'date(?:lor)? (?:cu caracter )?personale',
+    'prelucr[aă]r',
+    'confiden[țt]ialitate',
+    'gdpr',
+    'персональн\\S* данн',
+    'обработк\\S* данн',
+    'конфиденциальн',
+    'personal data',
+    'privacy',
+  ],
+  terms: [
+    'termen\\S* [șs]i condi[țt]ii',
+    'condi[țt]iil?e',
+    'regulament',
+    'условия',
+    'правила',
+    'соглаш',
+    'terms',
+    'conditions',
+  ],
+  marketing: [
+    'newsletter',
+    'abon(?:are|eaz)',
+    'oferte',
+    'promo[țt]i',
+    'noută[țt]i',
+    'marketing',
+    'рассылк',
+    'подпис',
+    'акци',
+    'новост',
+    'special offers',
+  ],
+  insurance: ['asigur', 'страхов', 'insurance'],
+};
+
+type InventoryArgs = {
+  formSelector: string;
+  patterns: Record<ConsentCategory, string>;
+};
+
+type CheckboxInfo = {
+  selector: string;
+  label: string;
+  categories: ConsentCategory[];
+  checked: boolean;
+  required: boolean;
+  visible: boolean;
+};
+
+type FormInfo = {
+  selector: string;
+  kind: string;
+  action: string;
+  personalData: boolean;
+  checkboxes: CheckboxInfo[];
+};
+
+/**
+ * Lists every form on the page (plus checkboxes outside any form, as a pseudo-form) with its checkboxes.
+ * Must be self-contained (Playwright serializes it); `selectorOf`/`isVisible` come from `installDomHelpers`.
+ * - kind: newsletter / contact / credit / checkout / login / search / other, guessed from fields and wording
+ * - personalData: the form asks for an e-mail, phone, name or IDNP
+ * - a checkbox counts as visible when the input itself or its label (`<label>`, `aria-labelledby`) is rendered;
+ *   custom styled checkboxes hide the input. The surrounding element only supplies label text, and only when it
+ *   holds no other checkbox; categories are matched on the label cut to 160 characters.
+ */
+function inventoryInPage(args: InventoryArgs): FormInfo[] {
+  const { selectorOf, isVisible } = window.__complianceDom!;
+
+  const clean = (s: string | null | undefined): string => (s || '').replace(/\s+/g, ' ').trim();
+
+  const patterns = Object.entries(args.patterns).map(([category, source]) => ({
+    category: category as ConsentCategory,
+    re: new RegExp(source, 'i'),
+  }));
+
+  const labelElementOf = (box: Element): Element | null => {
+    const labels = (box as HTMLInputElement).labels;
+    if (labels && labels.length) return labels[0];
+    const labelledBy = (box.getAttribute('aria-labelledby') || '').split(/\s+/).filter(Boolean)[0];
+    if (labelledBy) return document.getElementById(labelledBy);
+    return box.closest('label');
+  };
+
+  const checkboxSelector = 'input[type="checkbox"], [role="checkbox"]';
+
+  // The surrounding element names an unlabeled box only when it holds no other checkbox; in a fieldset or form it
+  // would be the text of every neighbouring consent.
+  const parentTextOf = (box: Element): string => {
+    const parent = box.parentElement;
+    return parent && parent.querySelectorAll(checkboxSelector).length === 1
+      ? clean(parent.textContent)
+      : '';
+  };
+
+  const describeCheckbox = (box: Element): CheckboxInfo => {
+    const labelEl = labelElementOf(box);
+    const label = (
+      clean(box.getAttribute('aria-label')) ||
+      clean(labelEl?.textContent) ||
+      parentTextOf(box) ||
+      clean(box.getAttribute('name'))
+    ).slice(0, 160);
+    const checked =
+      box instanceof HTMLInputElement
+        ? box.defaultChecked || box.checked
+        : box.getAttribute('aria-checked') === 'true';
+    return {
+      selector: selectorOf(box),
+      label,
+      categories: patterns.filter(p => p.re.test(label)).map(p => p.category),
+      checked,
+      required: (box as HTMLInputElement).required || box.getAttribute('aria-required') === 'true',
+      visible: isVisible(box) || isVisible(labelEl),
+    };
+  };
+
+  const kindOf = (form: Element): string => {
+    const text = clean(form.textContent).toLowerCase();
+    const attrs = `${form.getAttribute('action') || ''} ${form.id} ${form.className}`.toLowerCase();
+    const has = (sel: string): boolean => !!form.querySelector(sel);
+    if (has('input[type="password"]')) return 'login';
+    if (has('input[type="search"]') || /search|cautare|căutare|поиск/.test(attrs)) return 'search';
+    if (/credit|idnp|rate lunare|кредит|рассрочк/.test(`${attrs} ${text}`)) return 'credit';
+    if (/checkout|order|comand|заказ/.test(`${attrs} ${text}`)) return 'checkout';
+    if (has('textarea')) return 'contact';
+    if (/newsletter|subscribe|abon|подпис|рассылк/.test(`${attrs} ${text}`)) return 'newsletter';
+    return 'other';
+  };
+
+  const personalDataSelector =
+    'input[type="email"], input[type="tel"], input[name*="mail" i], input[name*="phone" i], input[name*="tel" i], ' +
+    'input[name*="name" i], input[autocomplete*="name"], input[name*="idnp" i]';
+
+  const forms = Array.from(document.querySelectorAll(args.formSelector));
+  const out: FormInfo[] = forms.map(form => ({
+    selector: selectorOf(form),
+    kind: kindOf(form),
+    action: form.getAttribute('action') || '',
+    personalData: !!form.querySelector(personalDataSelector),
+    checkboxes: Array.from(form.querySelectorAll(checkboxSelector)).map(describeCheckbox),
+  }));
+
+  const orphans = Array.from(document.querySelectorAll(checkboxSelector)).filter(
+    box => !forms.some(form => form.contains(box))
+  );
+  if (orphans.length) {
+    out.push({
+      selector: '(outside forms)',
+      kind: 'other',
+      action: '',
+      personalData: false,
+      checkboxes: orphans.map(describeCheckbox),
+    });
+  }
+  return out;
+}
+
+type Problem = { selector: string; detail: string };
+
+export async function formConsentCheck(
+  page: Page,
+  req: NormalizedRequirement,
+  profile: SiteProfile,
+  capture?: ElementCapture
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const raw = req.automation.raw;
+  const categories = (Array.isArray(raw.categories) ? raw.categories : CONSENT_CATEGORIES)
+    .map(c => String(c).trim())
+    .filter((c): c is ConsentCategory => (CONSENT_CATEGORIES as readonly string[]).includes(c));
+  const requireConsent = raw.require_personal_data_consent === true;
+
+  const escape = (s: string): string => s.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const patterns = Object.fromEntries(
+    CONSENT_CATEGORIES.map(c => {
+      const extra =
+        c === 'terms'
+          ? (profile.i18n.termsCheckboxLabels || []).filter(l => l.trim()).map(escape)
+          : [];
+      return [c, [...CATEGORY_PATTERNS[c], ...extra].join('|')];
+    })
+  ) as Record<ConsentCategory, string>;
+
+  let forms: FormInfo[];
+  try {
+    await installDomHelpers(page);
+    forms = await page.evaluate(inventoryInPage, {
+      formSelector: String(raw.form_selector || 'form'),
+      patterns,
+    });
+  } catch (e) {
+    return {
+      status: 'SKIPPED',
+      reason: `form_consent: form inventory failed (${e instanceof Error ? e.message : 'unknown error'})`,
+      evidence: { url: page.url() },
+    };
+  }
+
+  if (forms.length === 0) {
+    return {
+      status: 'SKIPPED',
+      reason: 'form_consent: no forms or checkboxes on this page',
+      evidence: { url: page.url() },
+    };
+  }
+
+  const problems: Problem[] = [];
+  let inspected = 0;
+  for (const form of forms) {
+    const where = `${form.selector} (${form.kind})`;
+    for (const box of form.checkboxes) {
+      const relevant = box.categories.filter(c => categories.includes(c));
+      if (relevant.length === 0) continue;
+      inspected++;
+      if (box.checked)
+        problems.push({
+          selector: box.selector,
+          detail: `${where}: [${relevant.join(', ')}] pre-checked "${box.label}"`,
+        });
+      if (box.required && !box.visible) {
+        problems.push({
+          selector: box.selector,
+          detail: `${where}: [${relevant.join(', ')}] required but hidden "${box.label}"`,
+        });
+      }
+      // Marketing consent must be separate from the consent needed to use the service.
+      if (
+        box.categories.includes('marketing') &&
+        box.categories.some(c => c === 'terms' || c === 'privacy')
+      ) {
+        problems.push({
+          selector: box.selector,
+          detail: `${where}: bundled consent [${box.categories.join(' + ')}] "${box.label}"`,
+        });
+      }
+    }
+    if (requireConsent && form.personalData && !['login', 'search'].includes(form.kind)) {
+      const hasConsent = form.checkboxes.some(b =>
+        b.categories.some(c => c === 'privacy' || c === 'terms')
+      );
+      if (!hasConsent)
+        problems.push({
+          selector: form.selector,
+          detail: `${where}: collects personal data without a consent checkbox`,
+        });
+    }
+  }
+
+  const inventory = forms.map(form => {
+    const boxes = form.checkboxes.map(
+      b =>
+        `[${b.categories.join('+') || 'other'}]${b.checked ? ' checked' : ''}${b.required ? ' required' : ''}${b.visible ? '' : ' hidden'}`
+    );
+    return `${form.selector} (${form.kind}${form.action ? `, action ${form.action}` : ''}): ${
+      boxes.length ? boxes.join(', ') : 'no checkboxes'
+    }`;
+  });
+
+  const evidence = {
+    url: page.url(),
+    selectorsUsed: problems.map(p => p.selector),
+    matchedSnippets: [...problems.map(p => p.detail), ...inventory],
+  };
+
+  if (problems.length) {
+    return {
+      status: 'FAIL',
+      reason: `form_consent: ${problems.length} problem(s) in ${forms.length} form(s): ${problems[0].detail}`,
+      evidence: await withElementEvidence(
+        evidence,
+        [...new Set(problems.map(p => p.selector))]
+          .filter(s => s !== '(outside forms)')
+          .map(s => page.locator(s)),
+        'FAIL',
+        capture
+      ),
+    };
+  }
+
+  return {
+    status: 'PASS',
+    reason: `form_consent: ${inspected} ${categories.join('/')} checkbox(es) in ${forms.length} form(s), none pre-checked, hidden or bundled`,
+    evidence,
+  };
+}
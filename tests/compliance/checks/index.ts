@@ -6,6 +6,14 @@ export { buttonTextExactCheck } from './buttonTextExact.check';
 export { currencyCheck } from './currencyCheck.check';
 export { sslCheck } from './sslCheck.check';
 export { cookieBannerComplianceCheck } from './cookieBanner.check';
+export { cookieLifecycleCheck } from './cookieLifecycle.check';
 export { networkSniffingCheck } from './networkSniffing.check';
 export { elementVisibilityCheck } from './elementVisibility.check';
+export { accessibilityAuditCheck } from './accessibilityAudit.check';
+export { keyboardNavigationCheck } from './keyboardNavigation.check';
+export { omnibusPriceCheck } from './omnibusPrice.check';
+export { creditDisclosureCheck } from './creditDisclosure.check';
+export { formConsentCheck } from './formConsent.check';
+export { legalClauseCheck } from './legalClause.check';
+export { companyIdentityCheck } from './companyIdentity.check';
 export { manualCheck } from './manualCheck.stub';
@@ -0,0 +1,396 @@
+import type { Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { installDomHelpers } from '../engine/dom';
+import { localizeUrl, type Language } from '../engine/languages';
+import type { RouteKey, SiteProfile } from '../site/siteProfile';
+
+/** What the focused element must look like to end a traversal stage (any criterion is enough). */
+type FocusTarget = {
+  name: string;
+  /** CSS selectors tested with `Element.matches`. */
+  selectors: string[];
+  /** Route path the focused link must point to (language prefix ignored). */
+  hrefPrefix?: string;
+  /** Visible texts (case/diacritics-insensitive substring match). */
+  labels: string[];
+};
+
+type FocusInfo = {
+  selector: string;
+  text: string;
+  isBody: boolean;
+  /** False when the focused element looks exactly like it did before receiving focus. */
+  indicator: boolean;
+  inDialog: boolean;
+  dialogOpen: boolean;
+  matchesTarget: boolean;
+  focusableCount: number;
+};
+
+type Traversal = {
+  trace: string[];
+  unreachable: string[];
+  /** Checkout controls focus never landed on. */
+  missedControls: string[];
+  traps: string[];
+  invisibleFocus: Set<string>;
+  escapeIssues: string[];
+};
+
+const FOCUSABLE_SELECTOR =
+  'a[href], button:not([disabled]), input:not([type="hidden"]):not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"]), [contenteditable="true"]';
+
+const DIALOG_SELECTOR = '[role="dialog"], [role="alertdialog"], [aria-modal="true"], dialog[open]';
+
+/** Records how every focusable element looks before focus, to detect focus states that change nothing. */
+function installFocusBaseline(focusableSelector: string): void {
+  const signature = (el: Element): string => {
+    const s = getComputedStyle(el);
+    return [
+      s.outlineStyle,
+      s.outlineWidth,
+      s.outlineColor,
+      s.boxShadow,
+      s.borderColor,
+      s.backgroundColor,
+      s.color,
+      s.textDecorationLine,
+    ].join('|');
+  };
+  const baseline = new WeakMap<Element, string>();
+  for (const el of Array.from(document.querySelectorAll(focusableSelector))) {
+    if (el !== document.activeElement) baseline.set(el, signature(el));
+  }
+  window.__complianceFocusBaseline = { baseline, signature };
+}
+
+/** In-page: the focused element and whether it ends the stage; helpers come from `installDomHelpers`. */
+function describeFocus(args: {
+  target: FocusTarget;
+  focusableSelector: string;
+  dialogSelector: string;
+}): FocusInfo {
+  const el = document.activeElement || document.body;
+  const normalize = (v: string): string =>
+    v
+      .normalize('NFD')
+      .replace(/\p{Diacritic}/gu, '')
+      .replace(/\s+/g, ' ')
+      .toLowerCase()
+      .trim();
+
+  const { selectorOf, isVisible } = window.__complianceDom!;
+
+  const text = (
+    el.getAttribute('aria-label') ||
+    (el as HTMLElement).innerText ||
+    el.getAttribute('value') ||
+    el.getAttribute('placeholder') ||
+    ''
+  )
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, 60);
+
+  const { target } = args;
+  let matchesTarget = target.selectors.some(sel => {
+    try {
+      return el.matches(sel);
+    } catch {
+      return false;
+    }
+  });
+  const href = el instanceof HTMLAnchorElement ? el.href : '';
+  if (!matchesTarget && href && target.hrefPrefix) {
+    try {
+      const pathname = new URL(href).pathname.replace(/^\/ru(?=\/|$)/, '') || '/';
+      matchesTarget =
+        pathname === target.hrefPrefix ||
+        pathname.startsWith(`${target.hrefPrefix.replace(/\/+$/, '')}/`);
+    } catch {
+      // ignore malformed hrefs
+    }
+  }
+  if (!matchesTarget && text && target.labels.length) {
+    const t = normalize(text);
+    matchesTarget = target.labels.some(l => normalize(l) && t.includes(normalize(l)));
+  }
+
+  const state = window.__complianceFocusBaseline;
+  const before = state?.baseline.get(el);
+  const indicator = !state || !before || before !== state.signature(el);
+
+  return {
+    selector: selectorOf(el),
+    text,
+    isBody: el === document.body || el === document.documentElement,
+    indicator,
+    inDialog: !!el.closest(args.dialogSelector),
+    dialogOpen: Array.from(document.querySelectorAll(args.dialogSelector)).some(isVisible),
+    matchesTarget,
+    focusableCount: Array.from(document.querySelectorAll(args.focusableSelector)).filter(isVisible)
+      .length,
+  };
+}
+
+/** Selectors of the visible, focusable controls, in the same form as `describeFocus` reports them. */
+function listInteractive(args: { focusableSelector: string }): string[] {
+  const { selectorOf, isVisible } = window.__complianceDom!;
+  return Array.from(document.querySelectorAll(args.focusableSelector))
+    .filter(el => isVisible(el))
+    .filter(el => !el.closest('[aria-hidden="true"], [inert]'))
+    .map(el => selectorOf(el));
+}
+
+async function focusInfo(page: Page, target: FocusTarget): Promise<FocusInfo> {
+  // Enter may have navigated; the helpers live in the document.
+  await installDomHelpers(page);
+  return page.evaluate(describeFocus, {
+    target,
+    focusableSelector: FOCUSABLE_SELECTOR,
+    dialogSelector: DIALOG_SELECTOR,
+  });
+}
+
+async function settle(page: Page): Promise<void> {
+  await page.waitForLoadState('domcontentloaded', { timeout: 15000 }).catch(() => undefined);
+  await page.waitForTimeout(800);
+  await page.evaluate(installFocusBaseline, FOCUSABLE_SELECTOR).catch(() => undefined);
+}
+
+function describeStep(info: FocusInfo): string {
+  if (info.isBody) return '(page body)';
+  return info.text ? `${info.selector} "${info.text}"` : info.selector;
+}
+
+/**
+ * Presses Tab until the focused element matches `target`, then activates it with Enter.
+ * Focus that stops moving, or cycles through a small group of elements outside a dialog, is a trap.
+ */
+async function tabTo(
+  page: Page,
+  stage: string,
+  target: FocusTarget,
+  maxTabs: number,
+  t: Traversal
+): Promise<boolean> {
+  const history: string[] = [];
+  const escapedDialogs = new Set<string>();
+  let stuck = 0;
+
+  for (let i = 1; i <= maxTabs; i++) {
+    await page.keyboard.press('Tab');
+    const info = await focusInfo(page, target);
+    t.trace.push(
+      `${stage} TAB#${i} → ${describeStep(info)}${info.indicator || info.isBody ? '' : ' [no visible focus]'}`
+    );
+    if (!info.isBody && !info.indicator) t.invisibleFocus.add(info.selector);
+
+    if (info.matchesTarget) {
+      await page.keyboard.press('Enter');
+      t.trace.push(`${stage} ENTER on ${describeStep(info)}`);
+      return true;
+    }
+
+    stuck = history[history.length - 1] === info.selector ? stuck + 1 : 0;
+    if (stuck >= 3) {
+      t.traps.push(`${stage}: focus stuck on ${info.selector}`);
+      return false;
+    }
+
+    const previous = history.lastIndexOf(info.selector);
+    if (previous >= 0 && !info.isBody && !info.inDialog) {
+      const cycle = history.length - previous;
+      if (cycle < Math.max(3, info.focusableCount / 2)) {
+        t.traps.push(
+          `${stage}: focus cycles through ${cycle} element(s) starting at ${info.selector}`
+        );
+        return false;
+      }
+    }
+    history.push(info.selector);
+
+    // Dialogs (cookie banner, add-to-cart popups) must close with Escape so the traversal can continue.
+    if (info.inDialog && !escapedDialogs.has(info.selector)) {
+      escapedDialogs.add(info.selector);
+      await page.keyboard.press('Escape');
+      const after = await focusInfo(page, target);
+      t.trace.push(`${stage} ESC → ${after.dialogOpen ? 'dialog still open' : 'dialog closed'}`);
+      if (after.dialogOpen)
+        t.escapeIssues.push(`${stage}: Escape does not close the dialog around ${info.selector}`);
+    }
+  }
+
+  t.unreachable.push(`${stage}: ${target.name} not reached after ${maxTabs} Tab presses`);
+  return false;
+}
+
+/** Tabs through the whole checkout page and reports interactive controls focus never lands on. */
+async function traverseCheckout(page: Page, maxTabs: number, t: Traversal): Promise<void> {
+  await installDomHelpers(page);
+  const expected = await page.evaluate(listInteractive, { focusableSelector: FOCUSABLE_SELECTOR });
+  const none: FocusTarget = { name: 'none', selectors: [], labels: [] };
+  const reached: string[] = [];
+  let stuck = 0;
+
+  for (let i = 1; i <= maxTabs; i++) {
+    await page.keyboard.press('Tab');
+    const info = await focusInfo(page, none);
+    t.trace.push(
+      `checkout TAB#${i} → ${describeStep(info)}${info.indicator || info.isBody ? '' : ' [no visible focus]'}`
+    );
+    if (!info.isBody && !info.indicator) t.invisibleFocus.add(info.selector);
+
+    stuck = reached[reached.length - 1] === info.selector ? stuck + 1 : 0;
+    if (stuck >= 3) {
+      t.traps.push(`checkout: focus stuck on ${info.selector}`);
+      break;
+    }
+    // Back at the first control: the whole page has been traversed.
+    if (reached.length > 1 && info.selector === reached[0]) break;
+    if (!info.isBody) reached.push(info.selector);
+  }
+
+  const reachedSet = new Set(reached);
+  for (const selector of expected) {
+    if (reachedSet.has(selector)) continue;
+    t.missedControls.push(selector);
+    t.unreachable.push(`checkout: ${selector} is never focused`);
+  }
+
+  // Shift+Tab must move focus backwards as well.
+  if (reached.length >= 2) {
+    const before = await focusInfo(page, none);
+    await page.keyboard.press('Shift+Tab');
+    const back = await focusInfo(page, none);
+    t.trace.push(`checkout SHIFT+TAB → ${describeStep(back)}`);
+    if (!before.isBody && back.selector === before.selector) {
+      t.traps.push(`checkout: Shift+Tab does not move focus back from ${before.selector}`);
+    }
+  }
+}
+
+function routeTarget(
+  profile: SiteProfile,
+  key: RouteKey,
+  name: string,
+  selectors: string[] = []
+): FocusTarget {
+  return { name, selectors, hrefPrefix: profile.routes?.[key], labels: [] };
+}
+
+export async function keyboardNavigationCheck(
+  page: Page,
+  req: NormalizedRequirement,
+  profile: SiteProfile,
+  lang: Language = 'RO'
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const missing = (['home', 'product', 'cart', 'checkout'] as RouteKey[]).filter(
+    k => !profile.routes?.[k]
+  );
+  if (missing.length) {
+    return {
+      status: 'SKIPPED',
+      reason: `keyboard_navigation: route(s) not configured in site profile: ${missing.join(', ')}`,
+      evidence: { url: page.url() },
+    };
+  }
+
+  const maxTabs =
+    Number(req.automation.raw.max_tabs) > 0 ? Number(req.automation.raw.max_tabs) : 150;
+  const maxInvisible = Number.isInteger(req.automation.raw.max_invisible_focus)
+    ? Number(req.automation.raw.max_invisible_focus)
+    : 0;
+
+  const t: Traversal = {
+    trace: [],
+    unreachable: [],
+    missedControls: [],
+    traps: [],
+    invisibleFocus: new Set(),
+    escapeIssues: [],
+  };
+  const stages: Array<{ stage: string; target: FocusTarget }> = [
+    {
+      stage: 'home→product',
+      target: routeTarget(profile, 'product', 'product link', profile.selectors.productLink),
+    },
+  ];
+  if (profile.selectors.addToCartButton?.length || profile.i18n.addToCartLabels?.length) {
+    stages.push({
+      stage: 'product→add to cart',
+      target: {
+        name: 'add to cart button',
+        selectors: profile.selectors.addToCartButton || [],
+        labels: profile.i18n.addToCartLabels || [],
+      },
+    });
+  }
+  stages.push(
+    { stage: 'product→cart', target: routeTarget(profile, 'cart', 'cart link') },
+    { stage: 'cart→checkout', target: routeTarget(profile, 'checkout', 'checkout link') }
+  );
+
+  try {
+    // The start page is the only navigation done without the keyboard; it is in the language being checked.
+    const home = localizeUrl(new URL(profile.routes!.home!, profile.baseUrl).toString(), lang);
+    await page.goto(home, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    await settle(page);
+    t.trace.push(`start ${home}`);
+
+    let reachedCheckout = true;
+    for (const { stage, target } of stages) {
+      if (!(await tabTo(page, stage, target, maxTabs, t))) {
+        reachedCheckout = false;
+        break;
+      }
+      await settle(page);
+      t.trace.push(`${stage} now at ${page.url()}`);
+    }
+
+    if (reachedCheckout) await traverseCheckout(page, maxTabs, t);
+  } catch (e) {
+    return {
+      status: 'SKIPPED',
+      reason: `keyboard_navigation: traversal aborted (${e instanceof Error ? e.message : 'unknown error'})`,
+      evidence: { url: page.url(), matchedSnippets: t.trace.slice(-40) },
+    };
+  }
+
+  const invisible = Array.from(t.invisibleFocus);
+  const problems = [...t.unreachable, ...t.traps];
+  const evidence = {
+    url: page.url(),
+    selectorsUsed: [...t.missedControls, ...invisible].slice(0, 40),
+    // Step-by-step trace; the tail is where the traversal stopped.
+    matchedSnippets: [...problems, ...t.escapeIssues, ...t.trace.slice(-80)],
+  };
+
+  if (problems.length) {
+    return {
+      status: 'FAIL',
+      reason: `keyboard_navigation: ${problems[0]}${problems.length > 1 ? ` (+${problems.length - 1} more)` : ''}`,
+      evidence,
+    };
+  }
+
+  if (invisible.length > maxInvisible || t.escapeIssues.length) {
+    const notes = [
+      invisible.length > maxInvisible
+        ? `${invisible.length} control(s) without visible focus (max ${maxInvisible})`
+        : '',
+      ...t.escapeIssues,
+    ].filter(Boolean);
+    return {
+      status: 'WARN',
+      reason: `keyboard_navigation: checkout reachable by keyboard, but ${notes.join('; ')}`,
+      evidence,
+    };
+  }
+
+  return {
+    status: 'PASS',
+    reason: `keyboard_navigation: home → product → cart → checkout reachable with the keyboard only`,
+    evidence,
+  };
+}
@@ -1,11 +1,13 @@
 import type { Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import type { CrawlSession } from '../engine/crawl';
 
 export async function keywordSearchCheck(
   page: Page,
   req: NormalizedRequirement,
+  crawl?: CrawlSession
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
-  const keywords = req.automation.raw.keywords as unknown;
+  const keywords = req.automation.raw.keywords;
   if (!Array.isArray(keywords) || keywords.length === 0) {
     return {
       status: 'SKIPPED',
@@ -14,10 +16,37 @@ export async function keywordSearchCheck(
     };
   }
 
+  const normalizedKeywords = keywords.map(k => String(k).toLowerCase()).filter(Boolean);
+
+  if (crawl) {
+    const pages = await crawl.pagesFrom(page);
+    const crawledUrls = pages.map(p => p.url);
+    for (const p of pages) {
+      const text = p.text.toLowerCase();
+      const found = normalizedKeywords.find(k => text.includes(k));
+      if (found) {
+        return {
+          status: 'PASS',
+          reason: `keyword_search: matched keyword "${found}" on ${p.url}`,
+          evidence: {
+            url: page.url(),
+            satisfiedByUrl: p.url,
+            crawledUrls,
+            matchedSnippets: [found],
+          },
+        };
+      }
+    }
+    return {
+      status: 'FAIL',
+      reason: `keyword_search: none of ${normalizedKeywords.length} keywords found on ${pages.length} crawled page(s)`,
+      evidence: { url: page.url(), crawledUrls, matchedSnippets: [] },
+    };
+  }
+
   const bodyText = (await page.locator('body').innerText()).toLowerCase();
-  const normalizedKeywords = keywords.map((k) => String(k).toLowerCase()).filter(Boolean);
 
-  const found = normalizedKeywords.find((k) => bodyText.includes(k));
+  const found = normalizedKeywords.find(k => bodyText.includes(k));
   if (!found) {
     return {
       status: 'FAIL',
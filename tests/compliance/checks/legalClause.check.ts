@@ -0,0 +1,308 @@
+import type { Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import type { CrawlSession } from '../engine/crawl';
+
+export const LEGAL_CLAUSES = [
+  'withdrawal_period',
+  'refund_period',
+  'legal_warranty',
+  'withdrawal_form',
+] as const;
+export type LegalClause = (typeof LEGAL_CLAUSES)[number];
+
+type PeriodClause = Exclude<LegalClause, 'withdrawal_form'>;
+
+/**
+ * Topic of each period clause (RO/RU/EN) and the legal bound the stated period must respect, in days. Returns count
+ * as withdrawal only when goods are returned ("returul produselor", "возврат товара"): returning money is a refund.
+ */
+const PERIOD_CLAUSES: Record<
+  PeriodClause,
+  { topic: RegExp; label: string; minDays?: number; maxDays?: number }
+> = {
+  withdrawal_period: {
+    topic:
+      /retrage|renun[țţt]a|denun[țţt]a|retur\S*\s+(?:\S+\s+)?(?:produs|bun|mărf|marf)|отказ|(?:возврат|вернуть)\S*\s+(?:\S+\s+)?товар|withdraw|return\S*\s+(?:\S+\s+)?(?:goods|products?|items?)/i,
+    label: 'withdrawal period',
+    minDays: 14,
+  },
+  refund_period: {
+    topic:
+      /rambursa|restitui|banii|suma achitat|возврат\w* (?:денеж|средств|денег|сумм)|вернем|вернём|возмещ|refund/i,
+    label: 'refund term',
+    maxDays: 14,
+  },
+  legal_warranty: {
+    topic: /garan[țţt]i|гаранти|warrant|guarantee/i,
+    label: 'legal warranty',
+    minDays: 730,
+  },
+};
+
+const FORM_LINK_RE =
+  /formular\w*\s+(?:standard\s+)?(?:de\s+)?(?:retragere|retur|returnare|renun[țţt]are)|(?:форм|бланк|заявлени)\w*\s+(?:\S+\s+)?(?:отказа|возврата)|withdrawal\s+form/i;
+const FORM_TOPIC_RE = /retrag|retur|renun[țţt]|отказ|возврат|withdraw/i;
+const DOWNLOAD_RE = /\.(?:pdf|docx?|odt|rtf)(?:$|[?#])/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+  un: 1,
+  o: 1,
+  una: 1,
+  unu: 1,
+  doi: 2,
+  două: 2,
+  doua: 2,
+  trei: 3,
+  paisprezece: 14,
+  treizeci: 30,
+  один: 1,
+  одна: 1,
+  два: 2,
+  две: 2,
+  три: 3,
+  четырнадцать: 14,
+  тридцать: 30,
+  one: 1,
+  two: 2,
+  three: 3,
+  fourteen: 14,
+  thirty: 30,
+};
+
+/** Length of one unit in days; months and years are averaged so "24 luni" equals "2 ani". */
+const UNIT_DAYS: { re: RegExp; days: number }[] = [
+  { re: /^(?:zi|zile|день|дн|day)/i, days: 1 },
+  { re: /^(?:săptăm|saptam|недел|week)/i, days: 7 },
+  { re: /^(?:lun|месяц|month)/i, days: 365 / 12 },
+  { re: /^(?:an|год|года|лет|year)/i, days: 365 },
+];
+
+// "14 zile", "14 (paisprezece) zile", "30 de zile" (RO puts "de" after numbers from 20), "doi ani", "24 месяца",
+// "14 календарных дней".
+const DURATION_RE = new RegExp(
+  `(\\d{1,3}|${Object.keys(NUMBER_WORDS)
+    .sort((a, b) => b.length - a.length)
+    .join('|')})` +
+    `\\s*(?:\\([^)]{1,30}\\)\\s*)?(?:de\\s+)?(?:(?:calendaristice|lucrătoare|lucratoare|календарных|рабочих|calendar|working)\\s+)?` +
+    `(zile|zi|săptămâni|saptamani|săptămână|saptamana|luni|lună|luna|ani|an|дней|дня|день|недел[ьиюя]|месяц(?:ев|а)?|года|год|лет|days?|weeks?|months?|years?)` +
+    `(?![\\p{L}])`,
+  'giu'
+);
+
+type Duration = { text: string; days: number; index: number };
+type Candidate = { url: string; sentence: string; duration: Duration; ok: boolean };
+
+function parseDurations(sentence: string): Duration[] {
+  const out: Duration[] = [];
+  for (const m of sentence.matchAll(DURATION_RE)) {
+    const amount = /^\d+$/.test(m[1]) ? Number(m[1]) : NUMBER_WORDS[m[1].toLowerCase()];
+    const unit = UNIT_DAYS.find(u => u.re.test(m[2]));
+    if (!amount || !unit) continue;
+    // The amount must start a word: "114" is not read as "14", nor "ano" as "o".
+    if (m.index > 0 && /[\p{L}\d]/u.test(sentence[m.index - 1])) continue;
+    out.push({ text: m[0], days: Math.round(amount * unit.days * 10) / 10, index: m.index });
+  }
+  return out;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.!?;])\s+/)
+    .map(s => s.replace(/\s+/g, ' ').trim())
+    .filter(s => s.length > 3);
+}
+
+function formatDays(days: number): string {
+  if (days >= 360 && Math.abs(days / 365 - Math.round(days / 365)) < 0.01)
+    return `${Math.round(days / 365)} year(s)`;
+  return `${days} day(s)`;
+}
+
+function trimSnippet(sentence: string): string {
+  return sentence.length > 220 ? `${sentence.slice(0, 217)}...` : sentence;
+}
+
+function readBound(value: unknown): number | undefined {
+  const n = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(n) && n >= 0 ? n : undefined;
+}
+
+/** Per sentence mentioning the topic, the duration closest to the topic keyword is taken as the stated period. */
+function findCandidates(
+  url: string,
+  text: string,
+  topic: RegExp,
+  meets: (days: number) => boolean
+): Candidate[] {
+  const out: Candidate[] = [];
+  for (const sentence of splitSentences(text)) {
+    const hit = topic.exec(sentence);
+    if (!hit) continue;
+    const durations = parseDurations(sentence);
+    if (!durations.length) continue;
+    const nearest = durations.reduce((best, d) =>
+      Math.abs(d.index - hit.index) < Math.abs(best.index - hit.index) ? d : best
+    );
+    out.push({ url, sentence, duration: nearest, ok: meets(nearest.days) });
+  }
+  return out;
+}
+
+async function periodClauseCheck(
+  page: Page,
+  req: NormalizedRequirement,
+  clause: PeriodClause,
+  crawl?: CrawlSession
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const raw = req.automation.raw;
+  const def = PERIOD_CLAUSES[clause];
+  const minDays = readBound(raw.min_days) ?? def.minDays;
+  const maxDays = readBound(raw.max_days) ?? def.maxDays;
+  let topic = def.topic;
+  if (typeof raw.topic_pattern === 'string' && raw.topic_pattern) {
+    try {
+      topic = new RegExp(raw.topic_pattern, 'i');
+    } catch (e) {
+      return {
+        status: 'SKIPPED',
+        reason: `legal_clause: invalid topic_pattern (${e instanceof Error ? e.message : 'unknown error'})`,
+        evidence: { url: page.url() },
+      };
+    }
+  }
+  const meets = (days: number): boolean =>
+    (minDays === undefined || days >= minDays) && (maxDays === undefined || days <= maxDays);
+  const bound = [
+    minDays !== undefined ? `≥ ${formatDays(minDays)}` : '',
+    maxDays !== undefined ? `≤ ${formatDays(maxDays)}` : '',
+  ]
+    .filter(Boolean)
+    .join(' and ');
+
+  const pages = crawl
+    ? await crawl.pagesFrom(page)
+    : [{ url: page.url(), text: await page.locator('body').innerText() }];
+  const candidates = pages.flatMap(p => findCandidates(p.url, p.text, topic, meets));
+  const matchedSnippets = candidates
+    .slice(0, 15)
+    .map(
+      c =>
+        `${c.ok ? 'ok' : 'not met'}: "${c.duration.text}" = ${formatDays(c.duration.days)} — ${trimSnippet(c.sentence)}`
+    );
+  const base = {
+    url: page.url(),
+    selectorsUsed: [`topic=${topic.source}`],
+    matchedSnippets,
+    ...(crawl ? { crawledUrls: pages.map(p => p.url) } : {}),
+  };
+
+  const satisfying = candidates.find(c => c.ok);
+  const failing = candidates.find(c => !c.ok);
+  // A compliant period stated in one place does not cancel a shorter/longer one stated elsewhere.
+  if (satisfying && failing) {
+    return {
+      status: 'WARN',
+      reason: `legal_clause: conflicting ${def.label} statements: "${satisfying.duration.text}" meets ${bound}, "${failing.duration.text}" (${formatDays(failing.duration.days)}) does not`,
+      evidence: base,
+    };
+  }
+  if (satisfying) {
+    return {
+      status: 'PASS',
+      reason: `legal_clause: ${def.label} of ${formatDays(satisfying.duration.days)} ("${satisfying.duration.text}") meets ${bound}`,
+      evidence: { ...base, satisfiedByUrl: satisfying.url },
+    };
+  }
+  if (candidates.length) {
+    const stated = [...new Set(candidates.map(c => `"${c.duration.text}"`))].slice(0, 5).join(', ');
+    return {
+      status: 'FAIL',
+      reason: `legal_clause: ${def.label} stated as ${stated}, legal requirement is ${bound}`,
+      evidence: base,
+    };
+  }
+  return {
+    status: 'FAIL',
+    reason: `legal_clause: no ${def.label} with a number of days/months/years found on ${pages.length} page(s)`,
+    evidence: base,
+  };
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+type FormLink = { text: string; href: string; downloadable: boolean };
+
+async function withdrawalFormCheck(
+  page: Page
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const links: { text: string; href: string }[] = await page.$$eval('a[href]', els =>
+    els.map(el => ({
+      text: (el.textContent || el.getAttribute('title') || el.getAttribute('aria-label') || '')
+        .replace(/\s+/g, ' ')
+        .trim(),
+      href: (el as HTMLAnchorElement).href,
+    }))
+  );
+
+  const forms: FormLink[] = [];
+  for (const link of links) {
+    const named =
+      FORM_LINK_RE.test(link.text) ||
+      FORM_LINK_RE.test(safeDecode(link.href).replace(/[-_]+/g, ' '));
+    const downloadable = DOWNLOAD_RE.test(link.href);
+    const topical = FORM_TOPIC_RE.test(link.text) || FORM_TOPIC_RE.test(link.href);
+    if (named || (downloadable && topical)) forms.push({ ...link, downloadable });
+  }
+
+  const matchedSnippets = forms
+    .slice(0, 10)
+    .map(f => `${f.downloadable ? 'download' : 'page'}: "${f.text || '(no text)'}" → ${f.href}`);
+
+  if (forms.length) {
+    const best = forms.find(f => f.downloadable) || forms[0];
+    return {
+      status: 'PASS',
+      reason: `legal_clause: withdrawal form ${best.downloadable ? 'downloadable' : 'linked'} ("${best.text || best.href}")`,
+      evidence: { url: page.url(), matchedSnippets, satisfiedByUrl: best.href },
+    };
+  }
+
+  const bodyText = await page.locator('body').innerText();
+  const mention = splitSentences(bodyText).find(s => FORM_LINK_RE.test(s));
+  if (mention) {
+    return {
+      status: 'WARN',
+      reason:
+        'legal_clause: withdrawal form mentioned, but no link to a downloadable or online form found',
+      evidence: { url: page.url(), matchedSnippets: [trimSnippet(mention)] },
+    };
+  }
+  return {
+    status: 'FAIL',
+    reason: `legal_clause: no withdrawal form link among ${links.length} link(s)`,
+    evidence: { url: page.url(), matchedSnippets: [] },
+  };
+}
+
+export async function legalClauseCheck(
+  page: Page,
+  req: NormalizedRequirement,
+  crawl?: CrawlSession
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const clause = String(req.automation.raw.clause || '') as LegalClause;
+  if (!(LEGAL_CLAUSES as readonly string[]).includes(clause)) {
+    return {
+      status: 'SKIPPED',
+      reason: `legal_clause: automation.clause must be one of ${LEGAL_CLAUSES.join('|')}`,
+      evidence: { url: page.url() },
+    };
+  }
+  if (clause === 'withdrawal_form') return withdrawalFormCheck(page);
+  return periodClauseCheck(page, req, clause, crawl);
+}
@@ -1,9 +1,71 @@
 import type { Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import { describeProbe, probeLink, type LinkProbe } from '../engine/links';
+
+/** Visible anchors probed per check; hidden ones are reported up to the same number. */
+const MAX_ANCHORS = 5;
+
+export type MatchedAnchor = {
+  href: string;
+  /** Absolute target as resolved by the browser. */
+  resolved: string;
+  text: string;
+  rel: string;
+  visible: boolean;
+  /** Why the anchor is not visible: display/visibility/opacity, zero size or positioned off-screen. */
+  hiddenBy?: string;
+};
+
+/** In-page: visibility of every anchor whose href contains the needle (self-contained for page.evaluate). */
+function inspectAnchorsInPage(args: { needle: string }): MatchedAnchor[] {
+  const hiddenBy = (el: Element): string | undefined => {
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      const style = getComputedStyle(node);
+      if (style.display === 'none') return 'display:none';
+      if (style.visibility === 'hidden') return 'visibility:hidden';
+      if (Number(style.opacity) === 0) return 'opacity:0';
+    }
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return 'zero size';
+    const doc = document.documentElement;
+    const left = rect.left + window.scrollX;
+    const top = rect.top + window.scrollY;
+    if (
+      left + rect.width <= 0 ||
+      top + rect.height <= 0 ||
+      left >= doc.scrollWidth ||
+      top >= doc.scrollHeight
+    )
+      return 'off-screen';
+    return undefined;
+  };
+
+  const out: MatchedAnchor[] = [];
+  for (const a of Array.from(document.querySelectorAll<HTMLAnchorElement>('a[href]'))) {
+    const href = a.getAttribute('href') || '';
+    if (!href.toLowerCase().includes(args.needle)) continue;
+    const reason = hiddenBy(a);
+    out.push({
+      href,
+      resolved: a.href,
+      text: (a.textContent || a.getAttribute('aria-label') || '').replace(/\s+/g, ' ').trim(),
+      rel: (a.getAttribute('rel') || '').toLowerCase(),
+      visible: !reason,
+      ...(reason ? { hiddenBy: reason } : {}),
+    });
+  }
+  return out;
+}
+
+function describeAnchor(anchor: MatchedAnchor, probe?: LinkProbe): string {
+  const state = anchor.visible ? 'visible' : `hidden (${anchor.hiddenBy})`;
+  const rel = anchor.rel ? ` rel="${anchor.rel}"` : '';
+  return `${anchor.href} "${anchor.text}" ${state}${rel}${probe ? ` — ${describeProbe(probe)}` : ''}`;
+}
 
 export async function linkPresenceCheck(
   page: Page,
-  req: NormalizedRequirement,
+  req: NormalizedRequirement
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
   const targetUrl = String(req.automation.raw.target_url || '').trim();
   if (!targetUrl) {
@@ -14,6 +76,8 @@ export async function linkPresenceCheck(
     };
   }
 
+  if (req.automation.raw.verify_live === true) return verifyLiveLinks(page, req, targetUrl);
+
   const anchors = page.locator('a[href]');
   const count = await anchors.count();
 
@@ -43,3 +107,101 @@ export async function linkPresenceCheck(
     evidence: { url: page.url(), matchedSnippets: matches },
   };
 }
+
+/**
+ * `verify_live`: the link must be one a visitor can actually use — rendered on screen (hidden and off-screen
+ * anchors, e.g. SEO-only links, do not count) and answering without an error status. A working link that is only
+ * present as `rel="nofollow"` gives WARN: the site itself marks it as not endorsed.
+ */
+async function verifyLiveLinks(
+  page: Page,
+  req: NormalizedRequirement,
+  targetUrl: string
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const raw = req.automation.raw;
+  const timeoutMs = Number(raw.timeout_ms) > 0 ? Number(raw.timeout_ms) : 10000;
+  const maxRedirects =
+    Number.isInteger(raw.max_redirects) && Number(raw.max_redirects) >= 0
+      ? Number(raw.max_redirects)
+      : 5;
+
+  // Cap visible and hidden anchors separately: duplicates in a collapsed mobile menu often come first in the DOM.
+  const matched = await page.evaluate(inspectAnchorsInPage, { needle: targetUrl.toLowerCase() });
+  const anchors = [
+    ...matched.filter(a => a.visible).slice(0, MAX_ANCHORS),
+    ...matched.filter(a => !a.visible).slice(0, MAX_ANCHORS),
+  ];
+  if (!anchors.length) {
+    return {
+      status: 'FAIL',
+      reason: `link_presence: no link href contains "${targetUrl}"`,
+      evidence: { url: page.url(), matchedSnippets: [] },
+    };
+  }
+
+  // Hidden anchors are reported but not probed; the same target is probed once.
+  const probes = new Map<string, LinkProbe>();
+  for (const anchor of anchors.filter(a => a.visible && /^https?:/i.test(a.resolved))) {
+    if (!probes.has(anchor.resolved))
+      probes.set(anchor.resolved, await probeLink(anchor.resolved, { timeoutMs, maxRedirects }));
+  }
+
+  const evidence = {
+    url: page.url(),
+    matchedSnippets: anchors.map(a => describeAnchor(a, probes.get(a.resolved))),
+    redirectChains: [...probes.values()].map(p => ({
+      url: p.url,
+      hops: p.hops,
+      live: p.live,
+      ...(p.error ? { error: p.error } : {}),
+    })),
+  };
+
+  const isNofollow = (a: MatchedAnchor): boolean => a.rel.split(/\s+/).includes('nofollow');
+  const live = anchors.filter(a => a.visible && probes.get(a.resolved)?.live);
+  const working = live.find(a => !isNofollow(a));
+  if (!working && live.length) {
+    return {
+      status: 'WARN',
+      reason: `link_presence: visible link to ${live[0].resolved} answers, but only with rel="${live[0].rel}"`,
+      evidence,
+    };
+  }
+  if (working) {
+    const probe = probes.get(working.resolved)!;
+    const redirects = probe.hops.length - 1;
+    return {
+      status: 'PASS',
+      reason: `link_presence: visible link to ${working.resolved} answers ${probe.finalStatus}${redirects ? ` after ${redirects} redirect(s)` : ''}`,
+      evidence: {
+        ...evidence,
+        satisfiedByUrl: probe.hops[probe.hops.length - 1]?.url || working.resolved,
+      },
+    };
+  }
+
+  const visible = anchors.filter(a => a.visible);
+  if (!visible.length) {
+    return {
+      status: 'FAIL',
+      reason: `link_presence: ${anchors.length} link(s) to "${targetUrl}" found, none visible (${anchors.map(a => a.hiddenBy).join(', ')})`,
+      evidence,
+    };
+  }
+  const timedOut = [...probes.values()].filter(p => p.timedOut);
+  if (timedOut.length && timedOut.length === probes.size) {
+    return {
+      status: 'WARN',
+      reason: `link_presence: visible link to "${targetUrl}" found, but its target did not answer within ${timeoutMs} ms`,
+      evidence,
+    };
+  }
+  const dead = [...probes.values()].find(p => !p.live);
+  return {
+    status: 'FAIL',
+    reason: dead
+      ? `link_presence: link to "${targetUrl}" is dead (${dead.error || `HTTP ${dead.finalStatus}`})`
+      : `link_presence: visible link to "${targetUrl}" is not an http(s) link`,
+    evidence,
+  };
+}
@@ -1,33 +1,38 @@
 import type { Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
 import type { SiteProfile } from '../site/siteProfile';
+import type { Vendor } from '../engine/vendors';
+import { classifyRequest, vendorCatalogFor } from '../engine/vendors';
 
-const TRACKER_NEEDLES = [
-  'googletagmanager',
-  'google-analytics',
-  'doubleclick',
-  'facebook',
-  'hotjar',
-  // Microsoft Clarity
-  'clarity.ms',
-];
+type VendorHits = { vendor: Vendor; urls: string[] };
 
 function buildAnyRegex(parts: string[]): RegExp {
   const escaped = parts
-    .map((p) => p.trim())
+    .map(p => p.trim())
     .filter(Boolean)
-    .map((p) => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    .map(p => p.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
   return new RegExp(escaped.join('|'), 'i');
 }
 
 export async function networkSniffingCheck(
   page: Page,
   req: NormalizedRequirement,
-  profile: SiteProfile,
+  profile: SiteProfile
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
   const durationMs = Number(req.automation.raw.duration_ms || 5000);
   const urls: string[] = [];
 
+  let vendors: Vendor[];
+  try {
+    vendors = vendorCatalogFor(profile);
+  } catch (e: any) {
+    return {
+      status: 'SKIPPED',
+      reason: `network_sniffing: ${e?.message || 'cannot load vendor catalog'}`,
+      evidence: { url: page.url() },
+    };
+  }
+
   const onRequest = (request: any) => {
     const url = String(request?.url?.() || request?.url || '');
     if (url) urls.push(url);
@@ -41,8 +46,21 @@ export async function networkSniffingCheck(
     page.off('request', onRequest);
   }
 
-  const sample = urls.slice(0, 200);
-  const found = sample.filter((u) => TRACKER_NEEDLES.some((n) => u.toLowerCase().includes(n)));
+  // Classify every observed request; only analytics/marketing vendors count as tracking (CMPs are "necessary").
+  const hits = new Map<string, VendorHits>();
+  for (const u of urls) {
+    const vendor = classifyRequest(vendors, u);
+    if (!vendor) continue;
+    const entry = hits.get(vendor.name) || { vendor, urls: [] };
+    entry.urls.push(u);
+    hits.set(vendor.name, entry);
+  }
+  const breakdown = [...hits.values()].sort((a, b) => b.urls.length - a.urls.length);
+  const trackers = breakdown.filter(h => h.vendor.category !== 'necessary');
+  const describe = (h: VendorHits) =>
+    `${h.vendor.name} (${h.vendor.category}): ${h.urls.length} request(s)`;
+  // A few example URLs per vendor are enough for a reviewer to reproduce the finding.
+  const examples = (list: VendorHits[]) => list.flatMap(h => h.urls.slice(0, 3));
 
   // If banner is not visible, we cannot assert "before consent" with confidence.
   // Try to detect the accept action inside a likely CMP/banner container to avoid false positives.
@@ -53,8 +71,16 @@ export async function networkSniffingCheck(
     const dialog = page.getByRole('dialog').filter({ hasText: cookieWord }).first();
     const dialogVisible = await dialog.isVisible({ timeout: 500 }).catch(() => false);
     if (dialogVisible) {
-      const accept = dialog.getByRole('button', { name: acceptName }).or(dialog.getByRole('link', { name: acceptName }));
-      if (await accept.first().isVisible({ timeout: 500 }).catch(() => false)) return true;
+      const accept = dialog
+        .getByRole('button', { name: acceptName })
+        .or(dialog.getByRole('link', { name: acceptName }));
+      if (
+        await accept
+          .first()
+          .isVisible({ timeout: 500 })
+          .catch(() => false)
+      )
+        return true;
     }
 
     const alertDialog = page.getByRole('alertdialog').filter({ hasText: cookieWord }).first();
@@ -63,7 +89,13 @@ export async function networkSniffingCheck(
       const accept = alertDialog
         .getByRole('button', { name: acceptName })
         .or(alertDialog.getByRole('link', { name: acceptName }));
-      if (await accept.first().isVisible({ timeout: 500 }).catch(() => false)) return true;
+      if (
+        await accept
+          .first()
+          .isVisible({ timeout: 500 })
+          .catch(() => false)
+      )
+        return true;
     }
 
     // 2) If site profile provides banner root selectors, require the accept action inside them.
@@ -72,34 +104,56 @@ export async function networkSniffingCheck(
       const root = page.locator(sel).first();
       const rootVisible = await root.isVisible({ timeout: 500 }).catch(() => false);
       if (!rootVisible) continue;
-      const accept = root.getByRole('button', { name: acceptName }).or(root.getByRole('link', { name: acceptName }));
-      if (await accept.first().isVisible({ timeout: 500 }).catch(() => false)) return true;
+      const accept = root
+        .getByRole('button', { name: acceptName })
+        .or(root.getByRole('link', { name: acceptName }));
+      if (
+        await accept
+          .first()
+          .isVisible({ timeout: 500 })
+          .catch(() => false)
+      )
+        return true;
     }
 
     // 3) Last resort: accept action anywhere (may be a false positive).
-    const accept = page.getByRole('button', { name: acceptName }).or(page.getByRole('link', { name: acceptName }));
-    return await accept.first().isVisible({ timeout: 500 }).catch(() => false);
+    const accept = page
+      .getByRole('button', { name: acceptName })
+      .or(page.getByRole('link', { name: acceptName }));
+    return await accept
+      .first()
+      .isVisible({ timeout: 500 })
+      .catch(() => false);
   })();
 
-  if (found.length > 0) {
+  const evidence = {
+    url: page.url(),
+    matchedSnippets: [
+      `${urls.length} request(s) observed in ${durationMs} ms`,
+      ...breakdown.map(describe),
+    ],
+  };
+
+  if (trackers.length > 0) {
     return {
       status: 'FAIL',
-      reason: `network_sniffing: detected trackers before consent window (${found.length} URL(s))`,
-      evidence: { url: page.url(), requestsSample: found },
+      reason: `network_sniffing: detected trackers before consent window (${trackers.map(describe).join('; ')})`,
+      evidence: { ...evidence, requestsSample: examples(trackers) },
     };
   }
 
   if (!bannerLikelyPresent) {
     return {
       status: 'WARN',
-      reason: 'network_sniffing: no trackers detected, but cookie banner not detected (cannot confirm consent gating)',
-      evidence: { url: page.url(), requestsSample: sample.slice(0, 30) },
+      reason:
+        'network_sniffing: no trackers detected, but cookie banner not detected (cannot confirm consent gating)',
+      evidence: { ...evidence, requestsSample: urls.slice(0, 30) },
     };
   }
 
   return {
     status: 'PASS',
-    reason: 'network_sniffing: no known trackers detected before consent window',
-    evidence: { url: page.url(), requestsSample: sample.slice(0, 30) },
+    reason: `network_sniffing: no analytics/marketing vendor among ${urls.length} request(s) before consent`,
+    evidence: { ...evidence, requestsSample: examples(breakdown) },
   };
 }
@@ -0,0 +1,167 @@
+import type { Page } from '@playwright/test';
+import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import type { SiteProfile } from '../site/siteProfile';
+import {
+  loadPriceHistory,
+  lowestPriceBeforeReduction,
+  recordPrice,
+  resolvePriceHistoryPath,
+  savePriceHistory,
+} from '../engine/priceHistory';
+import { collectProductLinks } from './productLinks';
+import { ProductDetailPage } from '../../shared/page-objects/product-detail.page';
+import { parsePriceSafe } from '../../shared/utils/price-utils';
+
+/**
+ * "Lowest price in the last 30 days: 1 299 lei" (RO/RU wording). The first capturing group that matched holds the price.
+ * Override per requirement with `automation.reference_pattern` (one capturing group around the price).
+ */
+const DEFAULT_REFERENCE_RE =
+  /(?:cel mai mic pre[țt]|pre[țt]ul? minim|pre[țt] minim)[^0-9]{0,80}?30\s*(?:de\s*)?zile[^0-9]{0,40}?([\d\s.,]+)\s*(?:lei|mdl)|(?:минимальная цена|самая низкая цена|наименьшая цена)[^0-9]{0,80}?30\s*дн\S*[^0-9]{0,40}?([\d\s.,]+)\s*(?:лей|lei|mdl)/i;
+
+type ProductFinding = {
+  url: string;
+  price: number;
+  oldPrice: number;
+  reference?: number;
+  lowestObserved?: { price: number; at: string };
+  problem?: 'missing_reference' | 'reference_above_observed';
+};
+
+function describe(f: ProductFinding): string {
+  const parts = [`${f.url}: price ${f.price}, old ${f.oldPrice}`];
+  parts.push(
+    f.reference !== undefined ? `30-day reference ${f.reference}` : 'no 30-day reference shown'
+  );
+  if (f.lowestObserved)
+    parts.push(`lowest observed ${f.lowestObserved.price} on ${f.lowestObserved.at.slice(0, 10)}`);
+  return parts.join(', ');
+}
+
+export async function omnibusPriceCheck(
+  page: Page,
+  req: NormalizedRequirement,
+  profile: SiteProfile
+): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const raw = req.automation.raw;
+  const maxProducts = Number(raw.max_products) > 0 ? Number(raw.max_products) : 8;
+  const tolerance = Number(raw.tolerance) > 0 ? Number(raw.tolerance) : 1;
+
+  let referenceRe = DEFAULT_REFERENCE_RE;
+  if (raw.reference_pattern) {
+    try {
+      referenceRe = new RegExp(String(raw.reference_pattern), 'i');
+    } catch (e: any) {
+      return {
+        status: 'SKIPPED',
+        reason: `omnibus_price: invalid reference_pattern (${e?.message || 'unknown error'})`,
+        evidence: { url: page.url() },
+      };
+    }
+  }
+
+  const links = await collectProductLinks(page, profile, maxProducts);
+  const selectorsUsed = profile.selectors.productLink || [];
+  if (links.length === 0) {
+    return {
+      status: 'SKIPPED',
+      reason:
+        'omnibus_price: no product links found on this page (selectors.productLink in site profile)',
+      evidence: { url: page.url(), selectorsUsed },
+    };
+  }
+
+  const now = new Date();
+  const historyPath = resolvePriceHistoryPath(profile.id);
+  const history = loadPriceHistory(historyPath, profile.id);
+  const findings: ProductFinding[] = [];
+
+  const worker = await page.context().newPage();
+  try {
+    const pdp = new ProductDetailPage(worker);
+    for (const url of links) {
+      try {
+        await worker.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+      } catch {
+        continue;
+      }
+
+      const price = await pdp.getPrice().catch(() => 0);
+      const discounted = await pdp.isDiscounted().catch(() => false);
+      const oldPrice = discounted ? await pdp.getOldPrice().catch(() => 0) : 0;
+
+      if (discounted && price > 0) {
+        const text = await worker
+          .locator('body')
+          .innerText()
+          .catch(() => '');
+        const m = referenceRe.exec(text);
+        const captured = m ? m.slice(1).find(g => g !== undefined) : undefined;
+        const reference = captured ? parsePriceSafe(captured) : 0;
+        const lowestObserved =
+          lowestPriceBeforeReduction(history, url, { price, now }) || undefined;
+
+        const finding: ProductFinding = { url, price, oldPrice, lowestObserved };
+        if (!reference) {
+          finding.problem = 'missing_reference';
+        } else {
+          finding.reference = reference;
+          if (lowestObserved && reference > lowestObserved.price + tolerance)
+            finding.problem = 'reference_above_observed';
+        }
+        findings.push(finding);
+      }
+
+      // Record after evaluating, so this run never serves as its own reference.
+      recordPrice(history, url, {
+        at: now.toISOString(),
+        price,
+        ...(oldPrice > 0 ? { oldPrice } : {}),
+      });
+    }
+  } finally {
+    await worker.close().catch(() => undefined);
+  }
+
+  try {
+    savePriceHistory(historyPath, history, now);
+  } catch {
+    // History is best effort; the check result does not depend on persisting it.
+  }
+
+  const evidence = { url: page.url(), selectorsUsed, matchedSnippets: findings.map(describe) };
+
+  if (findings.length === 0) {
+    return {
+      status: 'SKIPPED',
+      reason: `omnibus_price: no discounted product among ${links.length} sampled`,
+      evidence,
+    };
+  }
+
+  const missing = findings.filter(f => f.problem === 'missing_reference');
+  const above = findings.filter(f => f.problem === 'reference_above_observed');
+  if (missing.length || above.length) {
+    const parts = [
+      missing.length ? `${missing.length} discounted product(s) without a 30-day lowest price` : '',
+      above.length
+        ? `${above.length} product(s) show a 30-day reference above the lowest price we observed`
+        : '',
+    ].filter(Boolean);
+    return {
+      status: 'FAIL',
+      reason: `omnibus_price: ${parts.join('; ')} (of ${findings.length} discounted)`,
+      evidence: {
+        ...evidence,
+        matchedSnippets: [...missing, ...above, ...findings.filter(f => !f.problem)].map(describe),
+      },
+    };
+  }
+
+  const verified = findings.filter(f => f.lowestObserved).length;
+  return {
+    status: 'PASS',
+    reason: `omnibus_price: ${findings.length} discounted product(s) show a 30-day lowest price (${verified} checked against price history)`,
+    evidence,
+  };
+}
@@ -0,0 +1,24 @@
+import type { Page } from '@playwright/test';
+import type { SiteProfile } from '../site/siteProfile';
+
+/** Product page URLs linked from the current page (`selectors.productLink`), in page order, without duplicates. */
+export async function collectProductLinks(
+  page: Page,
+  profile: SiteProfile,
+  max: number
+): Promise<string[]> {
+  const selectors = profile.selectors.productLink || [];
+  const out: string[] = [];
+  for (const selector of selectors) {
+    const hrefs = await page
+      .locator(selector)
+      .evaluateAll(els => els.map(el => (el as HTMLAnchorElement).href).filter(Boolean))
+      .catch(() => [] as string[]);
+    for (const href of hrefs) {
+      const clean = href.split('#')[0];
+      if (!out.includes(clean)) out.push(clean);
+      if (out.length >= max) return out;
+    }
+  }
+  return out;
+}
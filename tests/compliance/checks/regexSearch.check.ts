@@ -1,5 +1,6 @@
 import type { Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import type { CrawlSession } from '../engine/crawl';
 
 function snippetAround(text: string, index: number, radius: number): string {
   const start = Math.max(0, index - radius);
@@ -10,6 +11,7 @@ function snippetAround(text: string, index: number, radius: number): string {
 export async function regexSearchCheck(
   page: Page,
   req: NormalizedRequirement,
+  crawl?: CrawlSession
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
   const pattern = String(req.automation.raw.pattern || '');
   if (!pattern) {
@@ -32,6 +34,32 @@ export async function regexSearchCheck(
     };
   }
 
+  if (crawl) {
+    const pages = await crawl.pagesFrom(page);
+    const crawledUrls = pages.map(p => p.url);
+    for (const p of pages) {
+      re.lastIndex = 0;
+      const m = re.exec(p.text);
+      if (!m) continue;
+      const at = m.index ?? p.text.indexOf(m[0]);
+      return {
+        status: 'PASS',
+        reason: `regex_search: matched /${pattern}/${flags} on ${p.url}`,
+        evidence: {
+          url: page.url(),
+          satisfiedByUrl: p.url,
+          crawledUrls,
+          matchedSnippets: [snippetAround(p.text, at >= 0 ? at : 0, 180)],
+        },
+      };
+    }
+    return {
+      status: 'FAIL',
+      reason: `regex_search: no match for /${pattern}/${flags} on ${pages.length} crawled page(s)`,
+      evidence: { url: page.url(), crawledUrls },
+    };
+  }
+
   const bodyText = await page.locator('body').innerText();
   const match = re.exec(bodyText);
 
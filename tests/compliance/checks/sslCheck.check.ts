@@ -1,11 +1,102 @@
 import type { Browser } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from '../engine/types';
+import type { RouteKey, SiteProfile } from '../site/siteProfile';
+import { joinUrl, resolveRoutePlan } from '../engine/routing';
+import {
+  LEGACY_TLS_PROTOCOLS,
+  TLS_PROTOCOLS,
+  inspectTls,
+  probeHttpRedirect,
+  readTlsCaFromEnv,
+  type HttpRedirectInfo,
+  type TlsReport,
+} from '../engine/tls';
+
+/** Mixed content browsers may still load (with a warning); everything else is blocked active content. */
+const PASSIVE_RESOURCE_TYPES = new Set(['image', 'media']);
+
+type MixedRequest = { route: string; url: string; resourceType: string };
+
+function numberOr(value: unknown, fallback: number): number {
+  const n = Number(value);
+  return value !== undefined && value !== null && Number.isFinite(n) && n >= 0 ? n : fallback;
+}
+
+/** Routes the whole-site check covers: explicit routes (profile/checklist) or every route the profile configures. */
+function routesToInspect(
+  req: NormalizedRequirement,
+  profile: SiteProfile
+): { key: RouteKey | 'base'; url: string }[] {
+  const plan = resolveRoutePlan(req, profile);
+  const keys =
+    plan.source === 'inferred' ? (Object.keys(profile.routes || {}) as RouteKey[]) : plan.routes;
+  const out: { key: RouteKey | 'base'; url: string }[] = [{ key: 'base', url: profile.baseUrl }];
+  for (const key of keys) {
+    const url = joinUrl(profile.baseUrl, profile.routes?.[key] || '');
+    if (!out.some(r => r.url === url)) out.push({ key, url });
+  }
+  return out;
+}
+
+async function collectMixedContent(
+  browser: Browser,
+  route: string,
+  url: string
+): Promise<MixedRequest[]> {
+  // Certificate validity is judged by the TLS inspector; the browser only needs to load the page.
+  const context = await browser.newContext({ ignoreHTTPSErrors: true });
+  const mixed: MixedRequest[] = [];
+  try {
+    const page = await context.newPage();
+    page.on('request', request => {
+      if (/^http:\/\//i.test(request.url()))
+        mixed.push({ route, url: request.url(), resourceType: request.resourceType() });
+    });
+    await page.goto(url, { waitUntil: 'load', timeout: 30000 }).catch(() => undefined);
+    await page.waitForTimeout(1500);
+  } finally {
+    await context.close().catch(() => undefined);
+  }
+  // The navigation itself may start on http:// only when the route is configured that way (reported separately).
+  return mixed.filter(m => m.url !== url);
+}
+
+function describeTls(report: TlsReport): string[] {
+  const lines: string[] = [];
+  const origin = `${report.host}:${report.port}`;
+  const cert = report.certificate;
+  if (cert) {
+    lines.push(
+      `${origin} certificate: ${cert.subject} issued by ${cert.issuer}, expires ${cert.validTo.slice(0, 10)} (${cert.daysToExpiry} day(s))` +
+        (cert.error ? `, NOT trusted: ${cert.error}` : '')
+    );
+  }
+  const accepted = TLS_PROTOCOLS.filter(p => report.protocols[p]);
+  const refused = TLS_PROTOCOLS.filter(p => !report.protocols[p]);
+  lines.push(
+    `${origin} protocols: ${accepted.join(', ') || 'none'}${refused.length ? ` (refused: ${refused.join(', ')})` : ''}`
+  );
+  if (report.hsts) {
+    lines.push(`${origin} HSTS: ${report.hsts.present ? report.hsts.header : 'missing'}`);
+  }
+  lines.push(...report.errors.map(e => `${origin} ${e}`));
+  return lines;
+}
+
+function describeRedirect(url: string, info: HttpRedirectInfo): string {
+  const plain = url.replace(/^https:/i, 'http:');
+  if (info.outcome === 'not_served') return `${plain}: plain HTTP not served (${info.detail})`;
+  if (info.outcome === 'serves_http')
+    return `${plain}: answered ${info.status} without redirecting to HTTPS`;
+  return `${plain} → ${info.status} ${info.location}`;
+}
 
 export async function sslCheck(
   browser: Browser,
-  _req: NormalizedRequirement,
-  baseUrl: string,
+  req: NormalizedRequirement,
+  profile: SiteProfile
 ): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  const baseUrl = profile.baseUrl;
   if (!baseUrl.toLowerCase().startsWith('https://')) {
     return {
       status: 'FAIL',
@@ -14,23 +105,123 @@ export async function sslCheck(
     };
   }
 
-  const context = await browser.newContext({ ignoreHTTPSErrors: false });
-  const page = await context.newPage();
+  const raw = req.automation.raw;
+  const expiryWarnDays = numberOr(raw.expiry_warn_days, 30);
+  const minHstsMaxAge = numberOr(raw.min_hsts_max_age, 15552000);
+  const httpPort = numberOr(raw.http_port, 80);
+  const checkMixedContent = raw.mixed_content !== false;
 
+  let ca: Buffer | undefined;
   try {
-    await page.goto(baseUrl, { waitUntil: 'domcontentloaded', timeout: 30000 });
+    ca = readTlsCaFromEnv();
+  } catch (e) {
     return {
-      status: 'PASS',
-      reason: 'ssl_check: https navigation succeeded without cert errors',
-      evidence: { url: page.url() },
+      status: 'SKIPPED',
+      reason: `ssl_check: cannot read COMPLIANCE_TLS_CA_FILE (${e instanceof Error ? e.message : 'unknown error'})`,
+      evidence: { url: baseUrl },
     };
-  } catch (e: any) {
+  }
+
+  const routes = routesToInspect(req, profile);
+  const failures: string[] = [];
+  const warnings: string[] = [];
+  const details: string[] = [];
+
+  // One TLS inspection per origin: routes normally share the host, partner routes may not.
+  const origins = new Map<string, string>();
+  for (const route of routes) {
+    if (/^http:\/\//i.test(route.url)) {
+      failures.push(`route ${route.key} is configured as plain HTTP (${route.url})`);
+      continue;
+    }
+    const origin = new URL(route.url).origin;
+    if (!origins.has(origin)) origins.set(origin, route.url);
+  }
+
+  for (const url of origins.values()) {
+    const report = await inspectTls(url, { ca });
+    details.push(...describeTls(report));
+    const origin = `${report.host}:${report.port}`;
+    failures.push(...report.errors.map(e => `${origin}: ${e}`));
+
+    const cert = report.certificate;
+    if (cert) {
+      if (cert.daysToExpiry < 0)
+        failures.push(`${origin}: certificate expired on ${cert.validTo.slice(0, 10)}`);
+      else if (cert.error) failures.push(`${origin}: certificate not trusted (${cert.error})`);
+      else if (cert.daysToExpiry <= expiryWarnDays) {
+        warnings.push(
+          `${origin}: certificate expires in ${cert.daysToExpiry} day(s) (warn window ${expiryWarnDays})`
+        );
+      }
+    }
+
+    const legacy = LEGACY_TLS_PROTOCOLS.filter(p => report.protocols[p]);
+    if (legacy.length)
+      warnings.push(`${origin}: legacy protocol(s) accepted: ${legacy.join(', ')}`);
+    if (cert && !report.protocols['TLSv1.2'] && !report.protocols['TLSv1.3']) {
+      failures.push(`${origin}: neither TLS 1.2 nor TLS 1.3 accepted`);
+    }
+
+    if (report.hsts && !report.hsts.present)
+      warnings.push(`${origin}: no Strict-Transport-Security header`);
+    else if (report.hsts && (report.hsts.maxAge ?? 0) < minHstsMaxAge) {
+      warnings.push(
+        `${origin}: HSTS max-age ${report.hsts.maxAge ?? 'missing'} < ${minHstsMaxAge}`
+      );
+    }
+  }
+
+  const httpsRoutes = routes.filter(r => /^https:\/\//i.test(r.url));
+  for (const route of httpsRoutes) {
+    const info = await probeHttpRedirect(new URL(route.url), httpPort, 10000);
+    details.push(describeRedirect(route.url, info));
+    if (info.outcome === 'serves_http')
+      failures.push(`${route.key}: plain HTTP answered ${info.status} instead of redirecting`);
+    if (info.outcome === 'redirects_elsewhere')
+      failures.push(`${route.key}: plain HTTP redirects to ${info.location}`);
+  }
+
+  const mixed: MixedRequest[] = [];
+  if (checkMixedContent) {
+    for (const route of httpsRoutes) {
+      mixed.push(...(await collectMixedContent(browser, route.key, route.url)));
+    }
+    const active = mixed.filter(m => !PASSIVE_RESOURCE_TYPES.has(m.resourceType));
+    const passive = mixed.filter(m => PASSIVE_RESOURCE_TYPES.has(m.resourceType));
+    if (active.length)
+      failures.push(
+        `${active.length} active mixed-content request(s) (${[...new Set(active.map(m => m.route))].join(', ')})`
+      );
+    if (passive.length)
+      warnings.push(
+        `${passive.length} passive mixed-content request(s) (${[...new Set(passive.map(m => m.route))].join(', ')})`
+      );
+    details.push(
+      ...mixed.slice(0, 20).map(m => `mixed content on ${m.route}: ${m.resourceType} ${m.url}`)
+    );
+  }
+
+  const evidence = {
+    url: baseUrl,
+    matchedSnippets: [...failures, ...warnings, ...details],
+    ...(mixed.length ? { requestsSample: mixed.slice(0, 30).map(m => m.url) } : {}),
+  };
+  const scope = `${origins.size} origin(s), ${routes.length} route URL(s)`;
+
+  if (failures.length) {
     return {
       status: 'FAIL',
-      reason: `ssl_check: navigation failed (${e?.message || 'unknown error'})`,
-      evidence: { url: baseUrl },
+      reason: `ssl_check: ${failures[0]}${failures.length > 1 ? ` (+${failures.length - 1} more)` : ''}`,
+      evidence,
     };
-  } finally {
-    await context.close();
   }
+  if (warnings.length) {
+    return { status: 'WARN', reason: `ssl_check: ${warnings.join('; ')}`, evidence };
+  }
+  return {
+    status: 'PASS',
+    reason: `ssl_check: trusted certificate, modern TLS, HSTS and HTTPS redirect on ${scope}${checkMixedContent ? ', no mixed content' : ''}`,
+    evidence,
+  };
 }
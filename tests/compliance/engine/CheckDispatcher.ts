@@ -2,17 +2,28 @@ import type { Browser, Page } from '@playwright/test';
 import type { CheckResult, NormalizedRequirement } from './types';
 import { AutomationType } from './types';
 import type { SiteProfile } from '../site/siteProfile';
+import { crawlEnabledFor, type CrawlSession } from './crawl';
+import type { ElementCapture } from './evidence';
+import type { Language } from './languages';
 
 import {
+  accessibilityAuditCheck,
   buttonTextExactCheck,
   checkboxStateCheck,
+  companyIdentityCheck,
   cookieBannerComplianceCheck,
+  cookieLifecycleCheck,
+  creditDisclosureCheck,
   currencyCheck,
   elementVisibilityCheck,
+  formConsentCheck,
+  keyboardNavigationCheck,
   keywordSearchCheck,
+  legalClauseCheck,
   linkPresenceCheck,
   manualCheck,
   networkSniffingCheck,
+  omnibusPriceCheck,
   regexSearchCheck,
   sslCheck,
 } from '../checks';
@@ -21,12 +32,42 @@ export type DispatchContext = {
   page: Page;
   browser: Browser;
   profile: SiteProfile;
+  /** Shared crawl cache; text checks only use it when crawl mode is enabled for the requirement. */
+  crawl?: CrawlSession;
+  /** Where element crops go for this requirement; checks that locate an element record it as evidence. */
+  capture?: ElementCapture;
+  /** Language variant the route page was opened in (RO when absent). */
+  lang?: Language;
 };
 
+type DispatchedResult = Pick<CheckResult, 'status' | 'reason' | 'evidence'>;
+
+const VERDICT_ORDER: CheckResult['status'][] = ['FAIL', 'WARN', 'PASS', 'SKIPPED'];
+
+/** Two checks of one requirement: the worse verdict decides, both reasons and snippets are kept. */
+function mergeVerdicts(first: DispatchedResult, second: DispatchedResult): DispatchedResult {
+  const [worse, other] =
+    VERDICT_ORDER.indexOf(second.status) < VERDICT_ORDER.indexOf(first.status)
+      ? [second, first]
+      : [first, second];
+  return {
+    status: worse.status,
+    reason: `${worse.reason}; ${other.reason}`,
+    evidence: {
+      ...other.evidence,
+      ...worse.evidence,
+      matchedSnippets: [
+        ...(worse.evidence.matchedSnippets || []),
+        ...(other.evidence.matchedSnippets || []),
+      ],
+    },
+  };
+}
+
 export async function dispatchCheck(
   ctx: DispatchContext,
-  req: NormalizedRequirement,
-): Promise<Pick<CheckResult, 'status' | 'reason' | 'evidence'>> {
+  req: NormalizedRequirement
+): Promise<DispatchedResult> {
   if (req.automation.type === 'missing') {
     return {
       status: 'SKIPPED',
@@ -43,29 +84,54 @@ export async function dispatchCheck(
     };
   }
 
+  const crawl = ctx.crawl && crawlEnabledFor(req, ctx.crawl.options) ? ctx.crawl : undefined;
+
   switch (req.automation.type) {
     case AutomationType.manual_check:
       return manualCheck(ctx.page, req);
     case AutomationType.keyword_search:
-      return keywordSearchCheck(ctx.page, req);
+      return keywordSearchCheck(ctx.page, req, crawl);
     case AutomationType.regex_search:
-      return regexSearchCheck(ctx.page, req);
+      return regexSearchCheck(ctx.page, req, crawl);
     case AutomationType.link_presence:
       return linkPresenceCheck(ctx.page, req);
     case AutomationType.checkbox_state:
-      return checkboxStateCheck(ctx.page, req, ctx.profile);
+      return checkboxStateCheck(ctx.page, req, ctx.profile, ctx.capture);
     case AutomationType.button_text_exact:
-      return buttonTextExactCheck(ctx.page, req, ctx.profile);
+      return buttonTextExactCheck(ctx.page, req, ctx.profile, ctx.capture);
     case AutomationType.currency_check:
       return currencyCheck(ctx.page, req, ctx.profile);
     case AutomationType.ssl_check:
-      return sslCheck(ctx.browser, req, ctx.profile.baseUrl);
+      return sslCheck(ctx.browser, req, ctx.profile);
     case AutomationType.cookie_banner_compliance:
-      return cookieBannerComplianceCheck(ctx.page, req, ctx.profile);
-    case AutomationType.network_sniffing:
-      return networkSniffingCheck(ctx.page, req, ctx.profile);
+      return cookieBannerComplianceCheck(ctx.page, req, ctx.profile, ctx.capture);
+    case AutomationType.network_sniffing: {
+      const sniffed = await networkSniffingCheck(ctx.page, req, ctx.profile);
+      // `"cookie_lifecycle": true` also audits the cookies set before consent and after Reject (4.2).
+      if (req.automation.raw.cookie_lifecycle !== true) return sniffed;
+      return mergeVerdicts(
+        sniffed,
+        await cookieLifecycleCheck(ctx.page, ctx.browser, req, ctx.profile)
+      );
+    }
     case AutomationType.element_visibility:
-      return elementVisibilityCheck(ctx.page, req, ctx.profile);
+      return elementVisibilityCheck(ctx.page, req, ctx.profile, ctx.capture);
+    case AutomationType.accessibility_audit:
+      return accessibilityAuditCheck(ctx.page, req);
+    case AutomationType.keyboard_navigation:
+      return keyboardNavigationCheck(ctx.page, req, ctx.profile, ctx.lang);
+    case AutomationType.omnibus_price:
+      return omnibusPriceCheck(ctx.page, req, ctx.profile);
+    case AutomationType.credit_disclosure:
+      return creditDisclosureCheck(ctx.page, req, ctx.profile);
+    case AutomationType.form_consent:
+      return formConsentCheck(ctx.page, req, ctx.profile, ctx.capture);
+    case AutomationType.cookie_lifecycle:
+      return cookieLifecycleCheck(ctx.page, ctx.browser, req, ctx.profile);
+    case AutomationType.legal_clause:
+      return legalClauseCheck(ctx.page, req, crawl);
+    case AutomationType.company_identity:
+      return companyIdentityCheck(ctx.page, req, crawl);
     default:
       return {
         status: 'SKIPPED',
@@ -0,0 +1,190 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import type { CheckResult } from './types';
+
+export const ATTESTATION_STATUSES = ['PASS', 'FAIL'] as const;
+export type AttestationStatus = (typeof ATTESTATION_STATUSES)[number];
+
+/** Attestations older than this are stale unless the entry sets its own `validForDays`. */
+export const DEFAULT_ATTESTATION_VALID_DAYS = 365;
+
+export type Attestation = {
+  /** Requirement id from the checklist (e.g. "7.3"). */
+  id: string;
+  siteId: string;
+  status: AttestationStatus;
+  note: string;
+  auditor: string;
+  /** Day of the manual verification (YYYY-MM-DD). */
+  date: string;
+  /** Screenshots, PDFs etc. backing the verdict, relative to the repository root. */
+  evidence: string[];
+  validForDays: number;
+};
+
+export class AttestationFileError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public problems: string[] = []
+  ) {
+    super(problems.length ? `${message}\n${problems.map(p => `  - ${p}`).join('\n')}` : message);
+    this.name = 'AttestationFileError';
+  }
+}
+
+export function resolveAttestationsPath(): string {
+  const fromEnv = String(process.env.COMPLIANCE_ATTESTATIONS_FILE || '').trim();
+  return fromEnv
+    ? path.resolve(fromEnv)
+    : path.join(process.cwd(), 'tests', 'compliance', 'attestations', 'attestations.yaml');
+}
+
+/** Last day the attestation counts (end of that day, UTC). */
+export function attestationExpiry(attestation: Pick<Attestation, 'date' | 'validForDays'>): Date {
+  const expires = new Date(`${attestation.date}T23:59:59.999Z`);
+  expires.setUTCDate(expires.getUTCDate() + attestation.validForDays);
+  return expires;
+}
+
+/**
+ * Reads and validates the attestation file. A missing file means "nothing attested"; a malformed one is an error,
+ * like for waivers: a dropped attestation would silently turn an audited requirement back into SKIPPED.
+ */
+export function loadAttestations(filePath: string = resolveAttestationsPath()): Attestation[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  const text = fs.readFileSync(filePath, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = /\.json$/i.test(filePath) ? JSON.parse(text) : YAML.parse(text);
+  } catch (e) {
+    throw new AttestationFileError(
+      `cannot parse attestation file ${filePath} (${e instanceof Error ? e.message : 'unknown error'})`,
+      filePath
+    );
+  }
+
+  const list = (parsed as { attestations?: unknown } | null)?.attestations ?? [];
+  if (!Array.isArray(list)) {
+    throw new AttestationFileError(
+      `attestation file ${filePath} must contain an "attestations" list`,
+      filePath
+    );
+  }
+
+  const problems: string[] = [];
+  const attestations: Attestation[] = [];
+  list.forEach((entry: Record<string, unknown> | null, index) => {
+    const at = `attestations[${index}]`;
+    const missing = ['id', 'siteId', 'status', 'note', 'auditor', 'date'].filter(
+      key => typeof entry?.[key] !== 'string' || !String(entry[key]).trim()
+    );
+    if (missing.length) {
+      problems.push(`${at}: missing ${missing.join(', ')}`);
+      return;
+    }
+    const e = entry as Record<string, unknown>;
+    const where = `${at} (${String(e.id)})`;
+    const status = String(e.status).toUpperCase().trim();
+    if (!(ATTESTATION_STATUSES as readonly string[]).includes(status)) {
+      problems.push(
+        `${where}: status must be one of ${ATTESTATION_STATUSES.join(', ')} (got "${String(e.status)}")`
+      );
+      return;
+    }
+    const date = String(e.date).trim();
+    if (
+      !/^\d{4}-\d{2}-\d{2}$/.test(date) ||
+      Number.isNaN(new Date(`${date}T00:00:00Z`).getTime())
+    ) {
+      problems.push(`${where}: invalid date "${date}" (expected YYYY-MM-DD)`);
+      return;
+    }
+    const validForDays =
+      e.validForDays === undefined ? DEFAULT_ATTESTATION_VALID_DAYS : Number(e.validForDays);
+    if (!Number.isInteger(validForDays) || validForDays <= 0) {
+      problems.push(`${where}: validForDays must be a positive integer`);
+      return;
+    }
+    const evidence: unknown = e.evidence === undefined ? [] : e.evidence;
+    if (
+      !Array.isArray(evidence) ||
+      !evidence.every((p: unknown): p is string => typeof p === 'string')
+    ) {
+      problems.push(`${where}: evidence must be a list of file paths`);
+      return;
+    }
+    attestations.push({
+      id: String(e.id).trim(),
+      siteId: String(e.siteId).toLowerCase().trim(),
+      status: status as AttestationStatus,
+      note: String(e.note).trim(),
+      auditor: String(e.auditor).trim(),
+      date,
+      evidence: evidence.map(p => p.trim()).filter(Boolean),
+      validForDays,
+    });
+  });
+
+  if (problems.length) {
+    throw new AttestationFileError(`invalid attestation file ${filePath}`, filePath, problems);
+  }
+  return attestations;
+}
+
+/**
+ * Fills SKIPPED results (manual requirements, or automated ones that could not run) from the latest attestation.
+ * Automated PASS/FAIL/WARN results always win over an attestation. Stale attestations keep the result SKIPPED
+ * and say so in the reason, so an audit that needs redoing is visible.
+ */
+export function applyAttestations(
+  results: CheckResult[],
+  attestations: Attestation[],
+  siteId: string,
+  now: Date
+): CheckResult[] {
+  const site = siteId.toLowerCase().trim();
+  const byId = new Map<string, Attestation>();
+  for (const a of attestations) {
+    if (a.siteId !== site) continue;
+    const existing = byId.get(a.id);
+    // Re-audits are appended to the file; the most recent verification wins.
+    if (!existing || a.date >= existing.date) byId.set(a.id, a);
+  }
+
+  return results.map(r => {
+    const attestation = byId.get(r.id);
+    if (!attestation || r.status !== 'SKIPPED') return r;
+
+    const expires = attestationExpiry(attestation);
+    const stale = expires.getTime() < now.getTime();
+    const details = {
+      status: attestation.status,
+      note: attestation.note,
+      auditor: attestation.auditor,
+      date: attestation.date,
+      expires: expires.toISOString().slice(0, 10),
+      evidence: attestation.evidence,
+      originalStatus: r.status,
+      stale,
+    };
+
+    if (stale) {
+      return {
+        ...r,
+        reason: `${r.reason} (manual attestation by ${attestation.auditor} on ${attestation.date} expired on ${details.expires})`,
+        attestation: details,
+      };
+    }
+
+    return {
+      ...r,
+      status: attestation.status,
+      reason: `manual attestation by ${attestation.auditor} on ${attestation.date}: ${attestation.note}`,
+      attestation: details,
+    };
+  });
+}
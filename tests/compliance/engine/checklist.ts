@@ -0,0 +1,64 @@
+import fs from 'fs';
+import path from 'path';
+
+import type { AuditChecklist, NormalizedRequirement } from './types';
+import { parseAutomationType, parseScope, parseSeverity } from './types';
+
+export function resolveAuditPath(): string {
+  return path.join(
+    process.cwd(),
+    'tests',
+    'compliance',
+    'audit',
+    'audit_master_2025_v2_1_FIXED.json'
+  );
+}
+
+export function readChecklist(auditPath: string): AuditChecklist {
+  const rawText = fs.readFileSync(auditPath, 'utf-8');
+  return JSON.parse(rawText) as AuditChecklist;
+}
+
+export function normalizeChecklist(checklist: AuditChecklist): NormalizedRequirement[] {
+  const out: NormalizedRequirement[] = [];
+  const sections = checklist.sections || {};
+
+  for (const [sectionKey, section] of Object.entries(sections)) {
+    const requirements = section.requirements || {};
+    for (const [id, raw] of Object.entries(requirements)) {
+      const severity = parseSeverity(raw.severity) || 'MEDIU';
+      const scope = parseScope(raw.scope) || 'MANDATORY';
+
+      const rawAutomation = (raw.automation || {}) as Record<string, unknown>;
+      const rawType = (rawAutomation.type as string | undefined) || undefined;
+      const parsedType = parseAutomationType(rawType);
+
+      const automation: {
+        type: NormalizedRequirement['automation']['type'];
+        rawType?: string;
+        raw: Record<string, unknown>;
+      } = rawType
+        ? parsedType
+          ? { type: parsedType, rawType, raw: rawAutomation }
+          : { type: 'unknown', rawType, raw: rawAutomation }
+        : Object.keys(rawAutomation).length
+          ? { type: 'unknown', rawType: undefined, raw: rawAutomation }
+          : { type: 'missing', rawType: undefined, raw: {} };
+
+      out.push({
+        id,
+        sectionKey,
+        sectionTitle: section.title,
+        desc: raw.desc,
+        whereToVerify: raw.where_to_verify,
+        law: raw.law,
+        risk: raw.risk,
+        severity,
+        scope,
+        automation,
+      });
+    }
+  }
+
+  return out;
+}
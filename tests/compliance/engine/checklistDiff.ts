@@ -0,0 +1,276 @@
+import type { AuditChecklist, AuditRequirementRaw } from './types';
+import { parseScope, parseSeverity } from './types';
+
+export type RequirementField =
+  'section' | 'desc' | 'where_to_verify' | 'law' | 'risk' | 'severity' | 'scope' | 'automation';
+
+export type RequirementFieldChange = {
+  field: RequirementField;
+  before?: unknown;
+  after?: unknown;
+};
+
+export type RequirementChange = {
+  id: string;
+  sectionKey: string;
+  kind: 'added' | 'removed' | 'modified';
+  desc: string;
+  changes: RequirementFieldChange[];
+  automationType: { before?: string; after?: string };
+  /** Added requirements and changed automation blocks need a (new) automated or manual check. */
+  needsAutomationReview: boolean;
+  /** False when results recorded against the base version no longer measure the same thing. */
+  resultsComparable: boolean;
+};
+
+export type SectionDiff = {
+  sectionKey: string;
+  title?: string;
+  added: RequirementChange[];
+  removed: RequirementChange[];
+  modified: RequirementChange[];
+};
+
+export type ChecklistDiff = {
+  base: { version?: string; generatedAt?: string; title?: string };
+  head: { version?: string; generatedAt?: string; title?: string };
+  totals: { added: number; removed: number; modified: number; unchanged: number };
+  sections: SectionDiff[];
+};
+
+/** Changes to these fields alter what a check measures, so past PASS/FAIL results cannot be compared 1:1. */
+const NON_COMPARABLE_FIELDS = new Set<RequirementField>([
+  'desc',
+  'where_to_verify',
+  'severity',
+  'scope',
+  'automation',
+]);
+
+type FlatRequirement = {
+  id: string;
+  sectionKey: string;
+  sectionTitle?: string;
+  raw: AuditRequirementRaw;
+};
+
+function flatten(checklist: AuditChecklist): Map<string, FlatRequirement> {
+  const out = new Map<string, FlatRequirement>();
+  for (const [sectionKey, section] of Object.entries(checklist.sections || {})) {
+    for (const [id, raw] of Object.entries(section.requirements || {})) {
+      out.set(id, { id, sectionKey, sectionTitle: section.title, raw });
+    }
+  }
+  return out;
+}
+
+function normalizeText(value: unknown): string {
+  return String(value ?? '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function automationTypeOf(raw?: AuditRequirementRaw): string | undefined {
+  const type = raw?.automation?.type;
+  return type ? String(type) : undefined;
+}
+
+function compareRequirement(
+  before: FlatRequirement,
+  after: FlatRequirement
+): RequirementFieldChange[] {
+  const changes: RequirementFieldChange[] = [];
+
+  if (before.sectionKey !== after.sectionKey) {
+    changes.push({ field: 'section', before: before.sectionKey, after: after.sectionKey });
+  }
+
+  for (const field of ['desc', 'where_to_verify', 'law', 'risk'] as const) {
+    if (normalizeText(before.raw[field]) !== normalizeText(after.raw[field])) {
+      changes.push({ field, before: before.raw[field], after: after.raw[field] });
+    }
+  }
+
+  const severityBefore = parseSeverity(before.raw.severity) || normalizeText(before.raw.severity);
+  const severityAfter = parseSeverity(after.raw.severity) || normalizeText(after.raw.severity);
+  if (severityBefore !== severityAfter)
+    changes.push({ field: 'severity', before: severityBefore, after: severityAfter });
+
+  const scopeBefore = parseScope(before.raw.scope) || normalizeText(before.raw.scope);
+  const scopeAfter = parseScope(after.raw.scope) || normalizeText(after.raw.scope);
+  if (scopeBefore !== scopeAfter)
+    changes.push({ field: 'scope', before: scopeBefore, after: scopeAfter });
+
+  if (
+    stableStringify(before.raw.automation || {}) !== stableStringify(after.raw.automation || {})
+  ) {
+    changes.push({
+      field: 'automation',
+      before: before.raw.automation,
+      after: after.raw.automation,
+    });
+  }
+
+  return changes;
+}
+
+function sectionBucket(
+  map: Map<string, SectionDiff>,
+  sectionKey: string,
+  title?: string
+): SectionDiff {
+  const existing = map.get(sectionKey);
+  if (existing) return existing;
+  const created: SectionDiff = { sectionKey, title, added: [], removed: [], modified: [] };
+  map.set(sectionKey, created);
+  return created;
+}
+
+/**
+ * Compares two checklist versions requirement by requirement (matched by id, across sections).
+ * Sections are reported in head order, followed by sections that only exist in the base version.
+ */
+export function diffChecklists(base: AuditChecklist, head: AuditChecklist): ChecklistDiff {
+  const before = flatten(base);
+  const after = flatten(head);
+
+  const sections = new Map<string, SectionDiff>();
+  for (const [sectionKey, section] of Object.entries(head.sections || {})) {
+    sectionBucket(sections, sectionKey, section.title);
+  }
+
+  let unchanged = 0;
+
+  for (const req of after.values()) {
+    const previous = before.get(req.id);
+    const bucket = sectionBucket(sections, req.sectionKey, req.sectionTitle);
+
+    if (!previous) {
+      bucket.added.push({
+        id: req.id,
+        sectionKey: req.sectionKey,
+        kind: 'added',
+        desc: req.raw.desc,
+        changes: [],
+        automationType: { after: automationTypeOf(req.raw) },
+        needsAutomationReview: true,
+        resultsComparable: false,
+      });
+      continue;
+    }
+
+    const changes = compareRequirement(previous, req);
+    if (changes.length === 0) {
+      unchanged++;
+      continue;
+    }
+
+    bucket.modified.push({
+      id: req.id,
+      sectionKey: req.sectionKey,
+      kind: 'modified',
+      desc: req.raw.desc,
+      changes,
+      automationType: { before: automationTypeOf(previous.raw), after: automationTypeOf(req.raw) },
+      needsAutomationReview: changes.some(c => c.field === 'automation'),
+      resultsComparable: !changes.some(c => NON_COMPARABLE_FIELDS.has(c.field)),
+    });
+  }
+
+  for (const req of before.values()) {
+    if (after.has(req.id)) continue;
+    sectionBucket(sections, req.sectionKey, req.sectionTitle).removed.push({
+      id: req.id,
+      sectionKey: req.sectionKey,
+      kind: 'removed',
+      desc: req.raw.desc,
+      changes: [],
+      automationType: { before: automationTypeOf(req.raw) },
+      needsAutomationReview: false,
+      resultsComparable: false,
+    });
+  }
+
+  const sectionList = Array.from(sections.values());
+  return {
+    base: {
+      version: base.meta?.version,
+      generatedAt: base.meta?.generated_at,
+      title: base.meta?.document_title,
+    },
+    head: {
+      version: head.meta?.version,
+      generatedAt: head.meta?.generated_at,
+      title: head.meta?.document_title,
+    },
+    totals: {
+      added: sectionList.reduce((n, s) => n + s.added.length, 0),
+      removed: sectionList.reduce((n, s) => n + s.removed.length, 0),
+      modified: sectionList.reduce((n, s) => n + s.modified.length, 0),
+      unchanged,
+    },
+    sections: sectionList,
+  };
+}
+
+function shortValue(value: unknown): string {
+  const text = typeof value === 'string' ? value : stableStringify(value);
+  const normalized = normalizeText(text);
+  return normalized.length > 80 ? `${normalized.slice(0, 77)}...` : normalized || '—';
+}
+
+export function formatChecklistDiff(diff: ChecklistDiff): string {
+  const label = (side: ChecklistDiff['base']) =>
+    `${side.version || 'unversioned'}${side.generatedAt ? ` (${side.generatedAt})` : ''}`;
+
+  const lines: string[] = [];
+  lines.push(`Checklist diff: ${label(diff.base)} -> ${label(diff.head)}`);
+  lines.push(
+    `+${diff.totals.added} added, -${diff.totals.removed} removed, ~${diff.totals.modified} modified, ${diff.totals.unchanged} unchanged`
+  );
+
+  for (const section of diff.sections) {
+    if (section.added.length + section.removed.length + section.modified.length === 0) continue;
+
+    lines.push('');
+    lines.push(`## ${section.sectionKey}${section.title ? ` — ${section.title}` : ''}`);
+
+    for (const c of section.added) {
+      lines.push(
+        `  + ${c.id} [${c.automationType.after || 'no automation'}] ${shortValue(c.desc)}  (needs automation review)`
+      );
+    }
+    for (const c of section.removed) {
+      lines.push(
+        `  - ${c.id} [${c.automationType.before || 'no automation'}] ${shortValue(c.desc)}`
+      );
+    }
+    for (const c of section.modified) {
+      const flags = [
+        c.needsAutomationReview ? 'needs automation review' : '',
+        c.resultsComparable ? '' : 'past results not comparable',
+      ].filter(Boolean);
+      lines.push(
+        `  ~ ${c.id} ${shortValue(c.desc)}${flags.length ? `  (${flags.join(', ')})` : ''}`
+      );
+      for (const change of c.changes) {
+        lines.push(
+          `      ${change.field}: ${shortValue(change.before)} -> ${shortValue(change.after)}`
+        );
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
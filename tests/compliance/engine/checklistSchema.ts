@@ -0,0 +1,336 @@
+import type { AuditChecklist } from './types';
+import { AutomationType, parseAutomationType, parseScope, parseSeverity } from './types';
+import { ROUTE_KEYS } from '../site/siteProfile';
+import {
+  ACCESSIBILITY_RULES,
+  ACCESSIBILITY_THRESHOLD_KEYS,
+} from '../checks/accessibilityAudit.check';
+import { CREDIT_FIGURES } from '../checks/creditDisclosure.check';
+import { CONSENT_CATEGORIES } from '../checks/formConsent.check';
+import { IDENTITY_PARTS } from '../checks/companyIdentity.check';
+import { LEGAL_CLAUSES } from '../checks/legalClause.check';
+
+export type ChecklistIssue = {
+  level: 'error' | 'warning';
+  /** Requirement id, when the issue belongs to a single requirement. */
+  id?: string;
+  sectionKey?: string;
+  field: string;
+  message: string;
+};
+
+/** `count` is a non-negative integer (e.g. a tolerated number of violations); `number` must be positive. */
+type FieldKind =
+  'string' | 'string[]' | 'number' | 'count' | 'boolean' | 'regex' | 'enum' | 'enum[]';
+
+type FieldRule = {
+  key: string;
+  kind: FieldKind;
+  required: boolean;
+  values?: string[];
+};
+
+/**
+ * Formal schema of the `automation` block per automation type.
+ * Keys not listed here are allowed (free-form notes etc.), but listed keys must have the declared shape.
+ */
+export const AUTOMATION_SCHEMA: Record<AutomationType, FieldRule[]> = {
+  [AutomationType.keyword_search]: [
+    { key: 'keywords', kind: 'string[]', required: true },
+    { key: 'crawl', kind: 'boolean', required: false },
+  ],
+  [AutomationType.regex_search]: [
+    { key: 'pattern', kind: 'regex', required: true },
+    { key: 'flags', kind: 'string', required: false },
+    { key: 'crawl', kind: 'boolean', required: false },
+  ],
+  [AutomationType.link_presence]: [
+    { key: 'target_url', kind: 'string', required: true },
+    { key: 'verify_live', kind: 'boolean', required: false },
+    { key: 'timeout_ms', kind: 'number', required: false },
+    { key: 'max_redirects', kind: 'count', required: false },
+  ],
+  [AutomationType.checkbox_state]: [
+    { key: 'expected_state', kind: 'enum', required: true, values: ['checked', 'unchecked'] },
+  ],
+  [AutomationType.button_text_exact]: [{ key: 'expected_text', kind: 'string[]', required: false }],
+  [AutomationType.currency_check]: [{ key: 'expected', kind: 'regex', required: false }],
+  [AutomationType.ssl_check]: [
+    { key: 'expiry_warn_days', kind: 'count', required: false },
+    { key: 'min_hsts_max_age', kind: 'count', required: false },
+    { key: 'http_port', kind: 'number', required: false },
+    { key: 'mixed_content', kind: 'boolean', required: false },
+  ],
+  [AutomationType.cookie_banner_compliance]: [],
+  [AutomationType.network_sniffing]: [
+    { key: 'duration_ms', kind: 'number', required: false },
+    { key: 'cookie_lifecycle', kind: 'boolean', required: false },
+    { key: 'settle_ms', kind: 'number', required: false },
+  ],
+  [AutomationType.element_visibility]: [],
+  [AutomationType.accessibility_audit]: [
+    { key: 'rules', kind: 'enum[]', required: false, values: [...ACCESSIBILITY_RULES] },
+    { key: 'min_contrast', kind: 'number', required: false },
+    { key: 'min_contrast_large', kind: 'number', required: false },
+    { key: 'image_selector', kind: 'string', required: false },
+    { key: 'sample_limit', kind: 'number', required: false },
+    ...Object.values(ACCESSIBILITY_THRESHOLD_KEYS).map(key => ({
+      key,
+      kind: 'count' as const,
+      required: false,
+    })),
+  ],
+  [AutomationType.keyboard_navigation]: [
+    { key: 'max_tabs', kind: 'number', required: false },
+    { key: 'max_invisible_focus', kind: 'count', required: false },
+  ],
+  [AutomationType.omnibus_price]: [
+    { key: 'max_products', kind: 'number', required: false },
+    { key: 'tolerance', kind: 'number', required: false },
+    { key: 'reference_pattern', kind: 'regex', required: false },
+  ],
+  [AutomationType.credit_disclosure]: [
+    { key: 'require', kind: 'enum[]', required: false, values: [...CREDIT_FIGURES] },
+    { key: 'max_products', kind: 'number', required: false },
+    { key: 'max_providers', kind: 'number', required: false },
+    { key: 'total_tolerance_pct', kind: 'number', required: false },
+    { key: 'cost_tolerance', kind: 'number', required: false },
+  ],
+  [AutomationType.form_consent]: [
+    { key: 'categories', kind: 'enum[]', required: false, values: [...CONSENT_CATEGORIES] },
+    { key: 'require_personal_data_consent', kind: 'boolean', required: false },
+    { key: 'form_selector', kind: 'string', required: false },
+  ],
+  [AutomationType.cookie_lifecycle]: [{ key: 'settle_ms', kind: 'number', required: false }],
+  [AutomationType.legal_clause]: [
+    { key: 'clause', kind: 'enum', required: true, values: [...LEGAL_CLAUSES] },
+    { key: 'min_days', kind: 'count', required: false },
+    { key: 'max_days', kind: 'count', required: false },
+    { key: 'topic_pattern', kind: 'regex', required: false },
+    { key: 'crawl', kind: 'boolean', required: false },
+  ],
+  [AutomationType.company_identity]: [
+    { key: 'require', kind: 'enum[]', required: false, values: [...IDENTITY_PARTS] },
+    { key: 'crawl', kind: 'boolean', required: false },
+  ],
+  [AutomationType.manual_check]: [{ key: 'notes', kind: 'string', required: false }],
+};
+
+/** Keys accepted by every automation type (route selection, see engine/routing.ts). */
+export const COMMON_AUTOMATION_FIELDS: FieldRule[] = [
+  { key: 'routes', kind: 'enum[]', required: false, values: [...ROUTE_KEYS] },
+  { key: 'routes_mode', kind: 'enum', required: false, values: ['any', 'all'] },
+];
+
+export class ChecklistValidationError extends Error {
+  constructor(
+    public source: string,
+    public issues: ChecklistIssue[]
+  ) {
+    const errors = issues.filter(i => i.level === 'error');
+    super(
+      `checklist ${source} has ${errors.length} error(s)\n${errors.map(formatChecklistIssue).join('\n')}`
+    );
+    this.name = 'ChecklistValidationError';
+  }
+}
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
+
+function checkField(rule: FieldRule, raw: Record<string, unknown>): string | null {
+  const value = raw[rule.key];
+  if (value === undefined || value === null) {
+    return rule.required ? `requires automation.${rule.key}` : null;
+  }
+
+  switch (rule.kind) {
+    case 'string':
+      return isNonEmptyString(value) ? null : `automation.${rule.key} must be a non-empty string`;
+    case 'string[]':
+      return Array.isArray(value) && value.length > 0 && value.every(isNonEmptyString)
+        ? null
+        : `automation.${rule.key} must be a non-empty list of strings`;
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) && value > 0
+        ? null
+        : `automation.${rule.key} must be a positive number`;
+    case 'count':
+      return typeof value === 'number' && Number.isInteger(value) && value >= 0
+        ? null
+        : `automation.${rule.key} must be a non-negative integer`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `automation.${rule.key} must be true or false`;
+    case 'enum':
+      return rule.values?.includes(String(value))
+        ? null
+        : `automation.${rule.key} must be one of ${(rule.values || []).join('|')} (got "${String(value)}")`;
+    case 'enum[]': {
+      const invalid = Array.isArray(value)
+        ? value.filter(v => !rule.values?.includes(String(v)))
+        : [];
+      if (!Array.isArray(value) || value.length === 0)
+        return `automation.${rule.key} must be a non-empty list`;
+      return invalid.length
+        ? `automation.${rule.key} has unknown value(s) ${invalid.map(v => `"${String(v)}"`).join(', ')} (expected ${(rule.values || []).join('|')})`
+        : null;
+    }
+    case 'regex': {
+      if (!isNonEmptyString(value))
+        return `automation.${rule.key} must be a non-empty regex string`;
+      const flags = typeof raw.flags === 'string' ? raw.flags : 'i';
+      try {
+        new RegExp(value, flags);
+        return null;
+      } catch (e) {
+        return `automation.${rule.key} is not a valid regex (${e instanceof Error ? e.message : 'unknown error'})`;
+      }
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Validates the raw checklist against the schema and reports every problem, keyed by requirement id.
+ * Unlike `normalizeChecklist`, nothing is coerced: bad severity/scope/type values are errors here.
+ */
+export function validateChecklist(checklist: AuditChecklist): ChecklistIssue[] {
+  const issues: ChecklistIssue[] = [];
+  const sections = checklist?.sections;
+
+  if (!sections || typeof sections !== 'object' || Object.keys(sections).length === 0) {
+    issues.push({ level: 'error', field: 'sections', message: 'checklist has no sections' });
+    return issues;
+  }
+
+  const seenIds = new Map<string, string>();
+  let total = 0;
+  let mandatory = 0;
+
+  for (const [sectionKey, section] of Object.entries(sections)) {
+    if (!isNonEmptyString(section?.title)) {
+      issues.push({
+        level: 'warning',
+        sectionKey,
+        field: 'title',
+        message: 'section has no title',
+      });
+    }
+
+    const requirements = section?.requirements || {};
+    if (Object.keys(requirements).length === 0) {
+      issues.push({
+        level: 'warning',
+        sectionKey,
+        field: 'requirements',
+        message: 'section has no requirements',
+      });
+    }
+
+    for (const [id, raw] of Object.entries(requirements)) {
+      const at = { id, sectionKey };
+      total++;
+
+      const previousSection = seenIds.get(id);
+      if (previousSection) {
+        issues.push({
+          ...at,
+          level: 'error',
+          field: 'id',
+          message: `duplicate id (also in ${previousSection})`,
+        });
+      }
+      seenIds.set(id, sectionKey);
+
+      if (!isNonEmptyString(raw?.desc)) {
+        issues.push({ ...at, level: 'error', field: 'desc', message: 'requires a non-empty desc' });
+      }
+      if (!isNonEmptyString(raw?.where_to_verify)) {
+        issues.push({
+          ...at,
+          level: 'error',
+          field: 'where_to_verify',
+          message: 'requires a non-empty where_to_verify',
+        });
+      }
+      if (!parseSeverity(raw?.severity)) {
+        issues.push({
+          ...at,
+          level: 'error',
+          field: 'severity',
+          message: `invalid severity "${String(raw?.severity ?? '')}" (expected CRITIC|RIDICAT|MEDIU|SCĂZUT)`,
+        });
+      }
+      const scope = parseScope(raw?.scope);
+      if (!scope) {
+        issues.push({
+          ...at,
+          level: 'error',
+          field: 'scope',
+          message: `invalid scope "${String(raw?.scope ?? '')}" (expected MANDATORY|BEST_PRACTICE)`,
+        });
+      } else if (scope === 'MANDATORY') {
+        mandatory++;
+      }
+
+      const automation = raw?.automation;
+      if (!automation || typeof automation !== 'object') {
+        issues.push({
+          ...at,
+          level: 'error',
+          field: 'automation',
+          message: 'missing automation block',
+        });
+        continue;
+      }
+
+      const type = parseAutomationType(automation.type);
+      if (!type) {
+        issues.push({
+          ...at,
+          level: 'error',
+          field: 'automation.type',
+          message: `unknown automation.type "${String(automation.type ?? '')}" (expected ${Object.values(AutomationType).join('|')})`,
+        });
+        continue;
+      }
+
+      for (const rule of [...COMMON_AUTOMATION_FIELDS, ...AUTOMATION_SCHEMA[type]]) {
+        const problem = checkField(rule, automation as Record<string, unknown>);
+        if (problem) {
+          issues.push({
+            ...at,
+            level: 'error',
+            field: `automation.${rule.key}`,
+            message: `${type} ${problem}`,
+          });
+        }
+      }
+    }
+  }
+
+  const totals = checklist.meta?.totals;
+  if (totals?.total_checks !== undefined && totals.total_checks !== total) {
+    issues.push({
+      level: 'warning',
+      field: 'meta.totals.total_checks',
+      message: `declares ${totals.total_checks} but checklist contains ${total}`,
+    });
+  }
+  if (totals?.mandatory_checks !== undefined && totals.mandatory_checks !== mandatory) {
+    issues.push({
+      level: 'warning',
+      field: 'meta.totals.mandatory_checks',
+      message: `declares ${totals.mandatory_checks} but checklist contains ${mandatory}`,
+    });
+  }
+
+  return issues;
+}
+
+export function formatChecklistIssue(issue: ChecklistIssue): string {
+  const where = issue.id ? `${issue.id} (${issue.sectionKey})` : issue.sectionKey || 'checklist';
+  return `[${issue.level.toUpperCase()}] ${where} ${issue.field}: ${issue.message}`;
+}
@@ -0,0 +1,177 @@
+import type { Page } from '@playwright/test';
+import type { NormalizedRequirement } from './types';
+
+export type CrawlOptions = {
+  enabled: boolean;
+  /** How many link hops to follow from the route page (1 = only links found on the route page). */
+  maxDepth: number;
+  /** Maximum number of extra pages visited per start page (the start page itself is not counted). */
+  maxPages: number;
+};
+
+export type CrawledPage = {
+  url: string;
+  depth: number;
+  text: string;
+};
+
+/**
+ * Link texts/paths that usually lead to legal or company information (RO/RU/EN).
+ * Footer links are always followed; other links only when they match this pattern.
+ */
+const LEGAL_LINK_RE =
+  /despre|about|contact|termeni|conditii|condiții|politic|privacy|confiden|cookie|retur|garan|livrare|reclama|legal|company|companie|о нас|о компании|контакт|услови|политик|конфиденц|возврат|гаранти|доставк/i;
+
+export const FOOTER_SELECTOR =
+  'footer, [role="contentinfo"], [id*="footer" i], [class*="footer" i]';
+
+function parseBool(value: string | undefined, fallback: boolean): boolean {
+  if (value === undefined || value.trim() === '') return fallback;
+  return ['1', 'true', 'yes', 'on'].includes(value.toLowerCase().trim());
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number): number {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : fallback;
+}
+
+export function readCrawlOptionsFromEnv(): CrawlOptions {
+  return {
+    enabled: parseBool(process.env.COMPLIANCE_CRAWL, false),
+    maxDepth: parsePositiveInt(process.env.COMPLIANCE_CRAWL_DEPTH, 1),
+    maxPages: parsePositiveInt(process.env.COMPLIANCE_CRAWL_MAX_PAGES, 10),
+  };
+}
+
+/** `automation.crawl` (true/false) overrides the run-level setting for a single requirement. */
+export function crawlEnabledFor(req: NormalizedRequirement, options: CrawlOptions): boolean {
+  const override = req.automation.raw.crawl;
+  return typeof override === 'boolean' ? override : options.enabled;
+}
+
+function normalizeUrl(raw: string): string | null {
+  try {
+    const u = new URL(raw);
+    u.hash = '';
+    return u.toString();
+  } catch {
+    return null;
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function sameSite(a: URL, b: URL): boolean {
+  return a.hostname.replace(/^www\./, '') === b.hostname.replace(/^www\./, '');
+}
+
+type PageAnchor = { href: string; text: string; inFooter: boolean };
+
+type PageSnapshot = { text: string; anchors: PageAnchor[] };
+
+async function snapshot(page: Page): Promise<PageSnapshot> {
+  const text = await page.locator('body').innerText();
+  const anchors = await page
+    .evaluate(footerSelector => {
+      return Array.from(document.querySelectorAll('a[href]')).map(a => ({
+        href: (a as HTMLAnchorElement).href,
+        text: (a.textContent || '').replace(/\s+/g, ' ').trim(),
+        inFooter: !!a.closest(footerSelector),
+      }));
+    }, FOOTER_SELECTOR)
+    .catch(() => [] as PageAnchor[]);
+  return { text, anchors };
+}
+
+/**
+ * Visits internal footer/legal links breadth-first and caches text and links of every page,
+ * so several text checks on the same route share one crawl.
+ */
+export class CrawlSession {
+  private snapshots = new Map<string, PageSnapshot | null>();
+  private corpora = new Map<string, Promise<CrawledPage[]>>();
+
+  constructor(public readonly options: CrawlOptions) {}
+
+  pagesFrom(page: Page): Promise<CrawledPage[]> {
+    const startUrl = normalizeUrl(page.url()) || page.url();
+    // Cache the pending crawl, so parallel route workers starting from the same page share it.
+    let corpus = this.corpora.get(startUrl);
+    if (!corpus) {
+      corpus = this.crawl(page, startUrl);
+      this.corpora.set(startUrl, corpus);
+    }
+    return corpus;
+  }
+
+  private async crawl(page: Page, startUrl: string): Promise<CrawledPage[]> {
+    const start = await snapshot(page).catch(() => ({ text: '', anchors: [] as PageAnchor[] }));
+    this.snapshots.set(startUrl, start);
+
+    const out: CrawledPage[] = [{ url: startUrl, depth: 0, text: start.text }];
+    const seen = new Set<string>([startUrl]);
+    let frontier = this.followableLinks(start.anchors, startUrl, seen);
+    let visited = 0;
+
+    const worker = await page.context().newPage();
+    try {
+      for (let depth = 1; depth <= this.options.maxDepth && frontier.length > 0; depth++) {
+        const next: string[] = [];
+        for (const url of frontier) {
+          if (visited >= this.options.maxPages) break;
+          visited++;
+
+          const snap = await this.visit(worker, url);
+          if (!snap) continue;
+          out.push({ url, depth, text: snap.text });
+
+          if (depth < this.options.maxDepth) {
+            next.push(...this.followableLinks(snap.anchors, startUrl, seen));
+          }
+        }
+        frontier = next;
+      }
+    } finally {
+      await worker.close().catch(() => undefined);
+    }
+
+    return out;
+  }
+
+  private async visit(worker: Page, url: string): Promise<PageSnapshot | null> {
+    if (this.snapshots.has(url)) return this.snapshots.get(url) ?? null;
+    let snap: PageSnapshot | null = null;
+    try {
+      await worker.goto(url, { waitUntil: 'domcontentloaded', timeout: 30000 });
+      snap = await snapshot(worker);
+    } catch {
+      snap = null;
+    }
+    this.snapshots.set(url, snap);
+    return snap;
+  }
+
+  private followableLinks(anchors: PageAnchor[], startUrl: string, seen: Set<string>): string[] {
+    const origin = new URL(startUrl);
+    const out: string[] = [];
+    for (const a of anchors) {
+      const url = normalizeUrl(a.href);
+      if (!url || seen.has(url)) continue;
+
+      const parsed = new URL(url);
+      if (!/^https?:$/.test(parsed.protocol) || !sameSite(parsed, origin)) continue;
+      if (/\.(pdf|docx?|xlsx?|zip|jpe?g|png|gif|svg|webp)$/i.test(parsed.pathname)) continue;
+      if (!a.inFooter && !LEGAL_LINK_RE.test(`${a.text} ${safeDecode(parsed.pathname)}`)) continue;
+
+      seen.add(url);
+      out.push(url);
+    }
+    return out;
+  }
+}
@@ -0,0 +1,71 @@
+import type { Page } from '@playwright/test';
+
+/**
+ * DOM helpers shared by the in-page functions of the checks. Functions passed to `page.evaluate` are serialized
+ * alone and cannot import anything, so the helpers are installed on `window` first (`installDomHelpers`) and
+ * the in-page functions read them from `window.__complianceDom`.
+ */
+export type DomHelpers = {
+  /** Short CSS path to the element: up to 4 levels, stopping at the first usable id. */
+  selectorOf: (el: Element) => string;
+  /** Rendered with a non-zero box and not hidden by `visibility`, `display` or `opacity`. */
+  isVisible: (el: Element | null) => boolean;
+};
+
+/**
+ * Look of each focusable element before it received focus, kept in the page by keyboard_navigation's
+ * `installFocusBaseline`.
+ */
+export type FocusBaseline = {
+  baseline: WeakMap<Element, string>;
+  signature: (el: Element) => string;
+};
+
+declare global {
+  interface Window {
+    __complianceDom?: DomHelpers;
+    __complianceFocusBaseline?: FocusBaseline;
+  }
+}
+
+/** In-page: defines `window.__complianceDom` (self-contained for page.evaluate). */
+function installDomHelpersInPage(): void {
+  if (window.__complianceDom) return;
+
+  const selectorOf = (el: Element): string => {
+    const parts: string[] = [];
+    let node: Element | null = el;
+    while (node && node !== document.body && parts.length < 4) {
+      if (node.id && /^[A-Za-z][\w-]*$/.test(node.id)) {
+        parts.unshift(`#${node.id}`);
+        break;
+      }
+      const tag = node.tagName.toLowerCase();
+      const parent: Element | null = node.parentElement;
+      const same = parent
+        ? Array.from(parent.children).filter(c => c.tagName === node!.tagName)
+        : [];
+      parts.unshift(same.length > 1 ? `${tag}:nth-of-type(${same.indexOf(node) + 1})` : tag);
+      node = parent;
+    }
+    return parts.join(' > ') || el.tagName.toLowerCase();
+  };
+
+  const isVisible = (el: Element | null): boolean => {
+    if (!el) return false;
+    const rect = el.getBoundingClientRect();
+    if (rect.width === 0 || rect.height === 0) return false;
+    const style = getComputedStyle(el);
+    return style.visibility !== 'hidden' && style.display !== 'none' && Number(style.opacity) > 0;
+  };
+
+  window.__complianceDom = { selectorOf, isVisible };
+}
+
+/**
+ * Installs the helpers in the current document. Navigation drops them, so call it before every `page.evaluate`
+ * that uses them; it is a no-op when they are already installed.
+ */
+export async function installDomHelpers(page: Page): Promise<void> {
+  await page.evaluate(installDomHelpersInPage);
+}
@@ -1,4 +1,28 @@
-import type { Evidence } from './types';
+import path from 'path';
+import type { Locator } from '@playwright/test';
+import type { Evidence, ResultStatus } from './types';
+
+export type ElementEvidence = NonNullable<Evidence['elements']>[number];
+
+/**
+ * Where element crops are written, provided by the runner per requirement and route. Without it (or when the
+ * screenshot policy declines the status) element evidence carries the HTML excerpt and bounding box only.
+ */
+export type ElementCapture = {
+  assetsDir: string;
+  /** `assetsDir` relative to the report folder, used for the recorded path. */
+  assetsSubdirName: string;
+  /** File name stem shared with the full-page screenshot (requirement id, plus route/language when needed). */
+  label: string;
+  shouldScreenshot: (status: ResultStatus) => boolean;
+};
+
+const OUTER_HTML_MAX = 1500;
+/** Context kept around the element in the crop, in CSS pixels. */
+const CROP_MARGIN = 24;
+const HIGHLIGHT_OUTLINE = '3px solid #e00000';
+/** Elements recorded per result; the first ones are the ones the reason talks about. */
+const MAX_ELEMENTS = 3;
 
 export function evidenceUrl(url?: string): Evidence {
   return { url };
@@ -18,7 +42,134 @@ export function withRequestsSample(evidence: Evidence, requestsSample: string[])
 
 export function withScreenshots(
   evidence: Evidence,
-  screenshots: Array<{ path: string; caption?: string }>,
+  screenshots: Array<{ path: string; caption?: string }>
 ): Evidence {
   return { ...evidence, screenshots };
 }
+
+function excerpt(html: string): string {
+  const collapsed = html.replace(/\s+/g, ' ').trim();
+  return collapsed.length > OUTER_HTML_MAX ? `${collapsed.slice(0, OUTER_HTML_MAX)}…` : collapsed;
+}
+
+/** Scrolls the element into view, outlines it and saves a crop with some context; the outline is removed afterwards. */
+async function highlightedCrop(element: Locator, outPath: string): Promise<boolean> {
+  const page = element.page();
+  await element.scrollIntoViewIfNeeded({ timeout: 2000 });
+  const previous = await element.evaluate(
+    (node, outline) => {
+      const style = (node as HTMLElement).style;
+      const saved = [style.outline, style.outlineOffset];
+      style.outline = outline;
+      style.outlineOffset = '2px';
+      return saved;
+    },
+    HIGHLIGHT_OUTLINE,
+    { timeout: 2000 }
+  );
+  try {
+    // Viewport coordinates, as `page.screenshot({ clip })` expects.
+    const box = await element.boundingBox({ timeout: 2000 });
+    if (!box) return false;
+    const viewport = page.viewportSize();
+    const x = Math.max(0, box.x - CROP_MARGIN);
+    const y = Math.max(0, box.y - CROP_MARGIN);
+    const right = Math.min(viewport?.width ?? Infinity, box.x + box.width + CROP_MARGIN);
+    const bottom = Math.min(viewport?.height ?? Infinity, box.y + box.height + CROP_MARGIN);
+    if (right <= x || bottom <= y) return false;
+    await page.screenshot({ path: outPath, clip: { x, y, width: right - x, height: bottom - y } });
+    return true;
+  } finally {
+    await element
+      .evaluate(
+        (node, [outline, offset]) => {
+          const style = (node as HTMLElement).style;
+          style.outline = outline;
+          style.outlineOffset = offset;
+        },
+        previous,
+        { timeout: 2000 }
+      )
+      .catch(() => undefined);
+  }
+}
+
+/**
+ * Records the first element matched by `locator`: an `outerHTML` excerpt, its bounding box and, when `capture`
+ * allows a screenshot for `status`, a crop with the element outlined. Returns `null` when nothing matches.
+ */
+export async function captureElementEvidence(
+  locator: Locator,
+  status: ResultStatus,
+  capture?: ElementCapture,
+  index = 0
+): Promise<ElementEvidence | null> {
+  const element = locator.first();
+  if ((await element.count().catch(() => 0)) === 0) return null;
+
+  const snapshot = await element
+    .evaluate(
+      node => {
+        const rect = node.getBoundingClientRect();
+        const rendered = rect.width > 0 || rect.height > 0;
+        return {
+          outerHTML: node.outerHTML,
+          boundingBox: rendered
+            ? {
+                x: rect.x + window.scrollX,
+                y: rect.y + window.scrollY,
+                width: rect.width,
+                height: rect.height,
+              }
+            : null,
+        };
+      },
+      undefined,
+      { timeout: 2000 }
+    )
+    .catch(() => null);
+  if (!snapshot) return null;
+
+  const round = (n: number) => Math.round(n);
+  const item: ElementEvidence = {
+    locator: String(locator),
+    outerHTML: excerpt(snapshot.outerHTML),
+    boundingBox: snapshot.boundingBox && {
+      x: round(snapshot.boundingBox.x),
+      y: round(snapshot.boundingBox.y),
+      width: round(snapshot.boundingBox.width),
+      height: round(snapshot.boundingBox.height),
+    },
+  };
+
+  if (capture && item.boundingBox && capture.shouldScreenshot(status)) {
+    const safe = (s: string) => s.replace(/[^a-zA-Z0-9._-]/g, '_');
+    const fileName = `${safe(capture.label)}.${safe(status)}.element${index ? `-${index + 1}` : ''}.png`;
+    const saved = await highlightedCrop(element, path.join(capture.assetsDir, fileName)).catch(
+      () => false
+    );
+    if (saved) {
+      item.screenshot = {
+        path: `${capture.assetsSubdirName}/${fileName}`.replace(/\\/g, '/'),
+        caption: `${capture.label} (${status}): ${item.locator}`,
+      };
+    }
+  }
+  return item;
+}
+
+/** Adds element evidence for the first match of each locator (up to three), in the given order. */
+export async function withElementEvidence(
+  evidence: Evidence,
+  locators: Locator[],
+  status: ResultStatus,
+  capture?: ElementCapture
+): Promise<Evidence> {
+  const elements: ElementEvidence[] = [...(evidence.elements || [])];
+  for (const locator of locators) {
+    if (elements.length >= MAX_ELEMENTS) break;
+    const item = await captureElementEvidence(locator, status, capture, elements.length);
+    if (item) elements.push(item);
+  }
+  return elements.length ? { ...evidence, elements } : evidence;
+}
@@ -0,0 +1,160 @@
+import type { CheckResult, ComplianceReport, RunFilters, Severity } from './types';
+import { compareSeverity, parseSeverity } from './types';
+
+export type GatePolicy = {
+  enabled: boolean;
+  /** FAIL results at or above this severity block the gate. */
+  blockingSeverity: Severity;
+  /** Which requirements can block: only MANDATORY ones, or everything in the report. */
+  blockingScope: RunFilters['scope'];
+  /** Tolerated number of non-blocking findings (FAIL or WARN) per severity; severities not listed are unlimited. */
+  maxFindings: Partial<Record<Severity, number>>;
+  /** WARN results block like FAIL ones (they always count against the per-severity budgets). */
+  warnAsFail: boolean;
+};
+
+export type GateResult = {
+  passed: boolean;
+  policy: GatePolicy;
+  blocking: CheckResult[];
+  findingsBySeverity: Record<Severity, number>;
+  exceeded: Array<{ severity: Severity; count: number; max: number }>;
+};
+
+/** A gate variable that cannot be read; a CI gate must not fall back to a laxer default on a typo. */
+export class GateConfigError extends Error {
+  constructor(
+    public variable: string,
+    public value: string,
+    expected: string
+  ) {
+    super(`${variable}: invalid value "${value}" (expected ${expected})`);
+    this.name = 'GateConfigError';
+  }
+}
+
+const SEVERITIES: Severity[] = ['CRITIC', 'RIDICAT', 'MEDIU', 'SCAZUT'];
+
+function parseBool(variable: string, value: string | undefined, fallback: boolean): boolean {
+  const normalized = String(value ?? '')
+    .toLowerCase()
+    .trim();
+  if (!normalized) return fallback;
+  if (['1', 'true', 'yes', 'on'].includes(normalized)) return true;
+  if (['0', 'false', 'no', 'off'].includes(normalized)) return false;
+  throw new GateConfigError(variable, String(value), 'true or false');
+}
+
+/** Parses `MEDIU:5,SCAZUT:10` into per-severity budgets. */
+function parseBudgets(
+  variable: string,
+  value: string | undefined
+): Partial<Record<Severity, number>> {
+  const out: Partial<Record<Severity, number>> = {};
+  for (const part of String(value || '').split(',')) {
+    if (!part.trim()) continue;
+    const [rawSeverity, rawMax, ...rest] = part.split(':').map(p => p.trim());
+    const severity = parseSeverity(rawSeverity || '');
+    const max = Number(rawMax);
+    if (!severity || rest.length || !rawMax || !Number.isInteger(max) || max < 0) {
+      throw new GateConfigError(
+        variable,
+        part.trim(),
+        `<severity>:<count> with severity ${SEVERITIES.join('|')}, e.g. MEDIU:5`
+      );
+    }
+    out[severity] = max;
+  }
+  return out;
+}
+
+export function readGatePolicyFromEnv(): GatePolicy {
+  const severityRaw = String(process.env.COMPLIANCE_GATE_SEVERITY || '').trim();
+  const blockingSeverity = severityRaw ? parseSeverity(severityRaw) : 'CRITIC';
+  if (!blockingSeverity) {
+    throw new GateConfigError('COMPLIANCE_GATE_SEVERITY', severityRaw, SEVERITIES.join('|'));
+  }
+  const scopeRaw = String(process.env.COMPLIANCE_GATE_SCOPE || 'MANDATORY')
+    .toUpperCase()
+    .trim();
+  if (scopeRaw !== 'ALL' && scopeRaw !== 'MANDATORY') {
+    throw new GateConfigError(
+      'COMPLIANCE_GATE_SCOPE',
+      String(process.env.COMPLIANCE_GATE_SCOPE),
+      'MANDATORY|ALL'
+    );
+  }
+  return {
+    enabled: parseBool('COMPLIANCE_GATE', process.env.COMPLIANCE_GATE, false),
+    blockingSeverity,
+    blockingScope: scopeRaw,
+    maxFindings: parseBudgets('COMPLIANCE_GATE_MAX', process.env.COMPLIANCE_GATE_MAX),
+    warnAsFail: parseBool(
+      'COMPLIANCE_GATE_WARN_AS_FAIL',
+      process.env.COMPLIANCE_GATE_WARN_AS_FAIL,
+      false
+    ),
+  };
+}
+
+/**
+ * Applies the gate policy to a finished report. WAIVED and SKIPPED results never count.
+ * A FAIL (or a WARN with `warnAsFail`) blocks when it is within the blocking scope and at/above the blocking
+ * severity; every other FAIL or WARN is charged to the budget of its severity.
+ */
+export function evaluateGate(report: ComplianceReport, policy: GatePolicy): GateResult {
+  const blocking: CheckResult[] = [];
+  const findingsBySeverity: Record<Severity, number> = {
+    CRITIC: 0,
+    RIDICAT: 0,
+    MEDIU: 0,
+    SCAZUT: 0,
+  };
+
+  for (const r of report.results) {
+    if (r.status !== 'FAIL' && r.status !== 'WARN') continue;
+    const canBlock = r.status === 'FAIL' || policy.warnAsFail;
+    const inScope = policy.blockingScope === 'ALL' || r.scope === 'MANDATORY';
+    if (canBlock && inScope && compareSeverity(r.severity, policy.blockingSeverity) >= 0) {
+      blocking.push(r);
+    } else {
+      findingsBySeverity[r.severity]++;
+    }
+  }
+
+  const exceeded = SEVERITIES.flatMap(severity => {
+    const max = policy.maxFindings[severity];
+    const count = findingsBySeverity[severity];
+    return max !== undefined && count > max ? [{ severity, count, max }] : [];
+  });
+
+  return {
+    passed: blocking.length === 0 && exceeded.length === 0,
+    policy,
+    blocking,
+    findingsBySeverity,
+    exceeded,
+  };
+}
+
+export function formatGateSummary(gate: GateResult, summary: ComplianceReport['summary']): string {
+  const { policy } = gate;
+  const budgets = SEVERITIES.map(s => {
+    const max = policy.maxFindings[s];
+    return `${s}=${gate.findingsBySeverity[s]}${max !== undefined ? `/${max}` : ''}`;
+  }).join(' ');
+
+  const lines = [
+    `[COMPLIANCE GATE] ${gate.passed ? 'PASSED' : 'FAILED'} ` +
+      `(block on ${policy.blockingScope} >= ${policy.blockingSeverity}${policy.warnAsFail ? ', WARN blocks like FAIL' : ''})`,
+    `  results: pass=${summary.pass} fail=${summary.fail} warn=${summary.warn} skipped=${summary.skipped} waived=${summary.waived}`,
+    `  non-blocking findings: ${budgets}`,
+  ];
+  for (const r of gate.blocking) {
+    lines.push(`  BLOCKING ${r.id} [${r.severity} ${r.scope}] ${r.status}: ${r.reason}`);
+  }
+  for (const e of gate.exceeded) {
+    lines.push(`  BUDGET EXCEEDED ${e.severity}: ${e.count} > ${e.max}`);
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,87 @@
+import type { CheckResult, ResultStatus } from './types';
+import type { RoutedPartial } from './routing';
+import { convertUrlToLanguage, type Language } from '../../shared/utils/language-utils';
+
+export type { Language };
+
+export type LocalizedPartial = RoutedPartial & Pick<CheckResult, 'languages'>;
+
+const SUPPORTED: Language[] = ['RO', 'RU'];
+
+/** Verdict ranking used to tell whether two language variants disagree. */
+const VERDICT_RANK: Partial<Record<ResultStatus, number>> = { FAIL: 2, WARN: 1, PASS: 0 };
+
+/**
+ * Languages to run, from `COMPLIANCE_LANGUAGES` (e.g. `RO,RU`). The first one is the primary language:
+ * it decides the result status. Defaults to RO only (the state language).
+ */
+export function readLanguagesFromEnv(): Language[] {
+  const out: Language[] = [];
+  for (const part of String(process.env.COMPLIANCE_LANGUAGES || '').split(',')) {
+    const lang = part.trim().toUpperCase() as Language;
+    if (SUPPORTED.includes(lang) && !out.includes(lang)) out.push(lang);
+  }
+  return out.length ? out : ['RO'];
+}
+
+export function localizeUrl(url: string, lang: Language): string {
+  // convertUrlToLanguage only inserts the prefix when the URL has a path.
+  const withPath = /^https?:\/\/[^/]+$/i.test(url) ? `${url}/` : url;
+  return convertUrlToLanguage(withPath, lang);
+}
+
+function isMismatch(a: ResultStatus, b: ResultStatus): boolean {
+  const ra = VERDICT_RANK[a];
+  const rb = VERDICT_RANK[b];
+  return ra !== undefined && rb !== undefined && (ra === 0) !== (rb === 0);
+}
+
+/**
+ * Merges the results of one requirement across language variants.
+ * The primary language decides the status, except that a primary PASS becomes WARN when another
+ * language fails: the requirement is met for state-language readers only.
+ */
+export function combineLanguageResults(
+  perLanguage: Array<{ lang: Language; partial: RoutedPartial }>
+): LocalizedPartial {
+  const [primary, ...others] = perLanguage;
+  if (!primary)
+    return {
+      status: 'SKIPPED',
+      reason: 'no language variant checked',
+      evidence: { url: undefined },
+    };
+  if (others.length === 0) return primary.partial;
+
+  const failing = others.find(o => isMismatch(primary.partial.status, o.partial.status));
+  const statuses = perLanguage.map(p => `${p.lang}=${p.partial.status}`).join(', ');
+  const screenshots = perLanguage.flatMap(p => p.partial.evidence.screenshots || []);
+
+  const languages: NonNullable<CheckResult['languages']> = {
+    primary: primary.lang,
+    mismatch: !!failing,
+    results: perLanguage.map(p => ({
+      lang: p.lang,
+      status: p.partial.status,
+      reason: p.partial.reason,
+      url: p.partial.evidence.url,
+    })),
+  };
+
+  let status = primary.partial.status;
+  let reason = primary.partial.reason;
+  if (failing && primary.partial.status === 'PASS') {
+    status = 'WARN';
+    reason = `passes in ${primary.lang} but not in ${failing.lang} (${statuses}): [${failing.lang}] ${failing.partial.reason}`;
+  } else if (failing) {
+    reason = `${primary.partial.reason} (language mismatch: ${statuses})`;
+  }
+
+  return {
+    ...primary.partial,
+    status,
+    reason,
+    evidence: { ...primary.partial.evidence, ...(screenshots.length ? { screenshots } : {}) },
+    languages,
+  };
+}
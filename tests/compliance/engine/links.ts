@@ -0,0 +1,151 @@
+import http from 'http';
+import https from 'https';
+
+export type RedirectHop = { url: string; status: number };
+
+export type LinkProbe = {
+  url: string;
+  /** Every response on the way, the last one being the final answer (absent when the request failed). */
+  hops: RedirectHop[];
+  method: 'HEAD' | 'GET';
+  finalStatus?: number;
+  /** Network failure (DNS, refused connection, TLS) or a redirect problem (loop, too many hops). */
+  error?: string;
+  timedOut: boolean;
+  live: boolean;
+};
+
+export type LinkProbeOptions = {
+  timeoutMs?: number;
+  maxRedirects?: number;
+};
+
+/** Answers to HEAD that often mean "HEAD not supported" rather than "page missing"; those are retried with GET. */
+const HEAD_FALLBACK_STATUSES = new Set([400, 403, 404, 405, 406, 429, 500, 501, 503]);
+
+const USER_AGENT = 'Mozilla/5.0 (compliance-kit link check)';
+
+function request(
+  url: URL,
+  method: 'HEAD' | 'GET',
+  timeoutMs: number
+): Promise<{ status: number; location?: string }> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      url,
+      { method, timeout: timeoutMs, headers: { 'User-Agent': USER_AGENT, Accept: '*/*' } },
+      res => {
+        res.destroy();
+        resolve({ status: res.statusCode || 0, location: res.headers.location });
+      }
+    );
+    req.on('timeout', () =>
+      req.destroy(
+        Object.assign(new Error(`timed out after ${timeoutMs} ms`), { code: 'ETIMEDOUT' })
+      )
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+async function follow(
+  start: string,
+  method: 'HEAD' | 'GET',
+  timeoutMs: number,
+  maxRedirects: number
+): Promise<LinkProbe> {
+  const hops: RedirectHop[] = [];
+  let current = new URL(start);
+  for (;;) {
+    let res: { status: number; location?: string };
+    try {
+      res = await request(current, method, timeoutMs);
+    } catch (e) {
+      const err = e as NodeJS.ErrnoException;
+      const timedOut = err?.code === 'ETIMEDOUT';
+      return {
+        url: start,
+        hops,
+        method,
+        error: `${current.toString()}: ${err?.code || err?.message || 'request failed'}`,
+        timedOut,
+        live: false,
+      };
+    }
+    hops.push({ url: current.toString(), status: res.status });
+
+    if (res.status >= 300 && res.status < 400 && !res.location) {
+      return {
+        url: start,
+        hops,
+        method,
+        finalStatus: res.status,
+        error: `${res.status} without a Location header`,
+        timedOut: false,
+        live: false,
+      };
+    }
+    if (res.status >= 300 && res.status < 400 && res.location) {
+      const next = new URL(res.location, current);
+      if (hops.some(h => h.url === next.toString())) {
+        return {
+          url: start,
+          hops,
+          method,
+          finalStatus: res.status,
+          error: `redirect loop at ${next.toString()}`,
+          timedOut: false,
+          live: false,
+        };
+      }
+      if (hops.length > maxRedirects) {
+        return {
+          url: start,
+          hops,
+          method,
+          finalStatus: res.status,
+          error: `more than ${maxRedirects} redirects`,
+          timedOut: false,
+          live: false,
+        };
+      }
+      current = next;
+      continue;
+    }
+    return {
+      url: start,
+      hops,
+      method,
+      finalStatus: res.status,
+      timedOut: false,
+      live: res.status >= 200 && res.status < 300,
+    };
+  }
+}
+
+/**
+ * Checks that a link target answers with a non-error status, following redirects by hand so the chain can be
+ * reported. HEAD first (cheap); GET when HEAD fails or gets an answer servers commonly give to HEAD only.
+ */
+export async function probeLink(url: string, options: LinkProbeOptions = {}): Promise<LinkProbe> {
+  const timeoutMs = options.timeoutMs || 10000;
+  const maxRedirects = options.maxRedirects ?? 5;
+  const head = await follow(url, 'HEAD', timeoutMs, maxRedirects);
+  if (head.live) return head;
+  // DNS failures and refused connections do not depend on the method.
+  if (head.error && !head.hops.length && !head.timedOut) return head;
+  if (
+    !head.error &&
+    head.finalStatus !== undefined &&
+    !HEAD_FALLBACK_STATUSES.has(head.finalStatus)
+  )
+    return head;
+  return follow(url, 'GET', timeoutMs, maxRedirects);
+}
+
+export function describeProbe(probe: LinkProbe): string {
+  const chain = probe.hops.map(h => `${h.status} ${h.url}`).join(' → ');
+  return `${probe.live ? 'live' : probe.timedOut ? 'NO ANSWER' : 'DEAD'} (${probe.method}) ${chain || probe.url}${probe.error ? ` [${probe.error}]` : ''}`;
+}
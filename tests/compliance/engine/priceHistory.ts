@@ -0,0 +1,132 @@
+import fs from 'fs';
+import path from 'path';
+
+export type PriceObservation = {
+  /** ISO timestamp of the compliance run that saw the price. */
+  at: string;
+  price: number;
+  /** Crossed-out price shown at the time, when the product was discounted. */
+  oldPrice?: number;
+};
+
+export type PriceHistory = {
+  siteId: string;
+  /** Observations per product URL (without query/hash), oldest first. */
+  products: Record<string, PriceObservation[]>;
+};
+
+const RETENTION_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The store lives next to the reports (git-ignored): it only contains what our own runs observed.
+ * `COMPLIANCE_PRICE_HISTORY_FILE` points several machines/CI caches at a shared copy.
+ */
+export function resolvePriceHistoryPath(siteId: string): string {
+  const fromEnv = String(process.env.COMPLIANCE_PRICE_HISTORY_FILE || '').trim();
+  return fromEnv
+    ? path.resolve(fromEnv)
+    : path.join(process.cwd(), 'tests', 'compliance', 'reports', siteId, 'price-history.json');
+}
+
+export function productKey(url: string): string {
+  try {
+    const u = new URL(url);
+    u.search = '';
+    u.hash = '';
+    // RO and RU pages show the same product and price.
+    u.pathname = u.pathname.replace(/^\/ru(?=\/|$)/, '') || '/';
+    return u.toString();
+  } catch {
+    return url;
+  }
+}
+
+/** A missing or unreadable store starts empty: history only makes the check stricter, never blocks it. */
+export function loadPriceHistory(filePath: string, siteId: string): PriceHistory {
+  try {
+    const parsed = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as PriceHistory;
+    if (parsed && typeof parsed.products === 'object' && parsed.products)
+      return { siteId, products: parsed.products };
+  } catch {
+    // ignore: first run or corrupted file
+  }
+  return { siteId, products: {} };
+}
+
+export function recordPrice(
+  history: PriceHistory,
+  url: string,
+  observation: PriceObservation
+): void {
+  if (!(observation.price > 0)) return;
+  const key = productKey(url);
+  const list = history.products[key] || [];
+  list.push(observation);
+  history.products[key] = list;
+}
+
+/**
+ * Lowest price observed in the `days` before the current reduction started (Omnibus reference window).
+ * Trailing observations showing the current discounted price belong to the running reduction and are skipped;
+ * the first of them marks its start (or `now`, when this run is the first to see the reduction).
+ */
+export function lowestPriceBeforeReduction(
+  history: PriceHistory,
+  url: string,
+  current: { price: number; now: Date },
+  days = 30
+): { price: number; at: string; reductionSince: string } | null {
+  const list = [...(history.products[productKey(url)] || [])]
+    .filter(o => !Number.isNaN(new Date(o.at).getTime()) && new Date(o.at) <= current.now)
+    .sort((a, b) => a.at.localeCompare(b.at));
+
+  let start = list.length;
+  while (start > 0 && list[start - 1].oldPrice && list[start - 1].price === current.price) start--;
+  const reductionSince = start < list.length ? new Date(list[start].at) : current.now;
+
+  const from = reductionSince.getTime() - days * DAY_MS;
+  let lowest: { price: number; at: string } | null = null;
+  for (const o of list.slice(0, start)) {
+    const at = new Date(o.at).getTime();
+    if (at < from) continue;
+    if (!lowest || o.price < lowest.price) lowest = { price: o.price, at: o.at };
+  }
+  return lowest ? { ...lowest, reductionSince: reductionSince.toISOString() } : null;
+}
+
+/** Union of two stores; an observation present in both (same time, price and old price) is kept once. */
+export function mergePriceHistories(base: PriceHistory, extra: PriceHistory): PriceHistory {
+  const products: PriceHistory['products'] = {};
+  for (const source of [base, extra]) {
+    for (const [key, list] of Object.entries(source.products)) {
+      const merged = products[key] || [];
+      for (const o of list) {
+        if (!merged.some(m => m.at === o.at && m.price === o.price && m.oldPrice === o.oldPrice))
+          merged.push(o);
+      }
+      products[key] = merged;
+    }
+  }
+  for (const list of Object.values(products)) list.sort((a, b) => a.at.localeCompare(b.at));
+  return { siteId: extra.siteId || base.siteId, products };
+}
+
+/**
+ * Parallel workers each load the store, record their own products and save. Saving therefore merges with what is
+ * on disk at that moment (not what was loaded) and replaces the file with a rename, so a concurrent save is never
+ * overwritten with a stale copy or read half-written.
+ */
+export function savePriceHistory(filePath: string, history: PriceHistory, now: Date): void {
+  const merged = mergePriceHistories(loadPriceHistory(filePath, history.siteId), history);
+  const cutoff = now.getTime() - RETENTION_DAYS * DAY_MS;
+  const products: PriceHistory['products'] = {};
+  for (const [key, list] of Object.entries(merged.products)) {
+    const kept = list.filter(o => new Date(o.at).getTime() >= cutoff);
+    if (kept.length) products[key] = kept;
+  }
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tmpFile = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(tmpFile, JSON.stringify({ siteId: history.siteId, products }, null, 2), 'utf-8');
+  fs.renameSync(tmpFile, filePath);
+}
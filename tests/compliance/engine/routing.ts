@@ -0,0 +1,175 @@
+import type { CheckResult, NormalizedRequirement, ResultStatus } from './types';
+import { AutomationType } from './types';
+import { ROUTE_KEYS, type RouteKey, type SiteProfile } from '../site/siteProfile';
+
+export type RouteMode = 'any' | 'all';
+
+export type RoutePlan = {
+  routes: RouteKey[];
+  /** any: one satisfying route is enough; all: every listed route must satisfy the requirement. */
+  mode: RouteMode;
+  source: 'profile' | 'checklist' | 'inferred';
+};
+
+export type RouteOutcome = Pick<CheckResult, 'status' | 'reason' | 'evidence'> & {
+  routeKey: RouteKey;
+};
+
+export type RoutedPartial = Pick<CheckResult, 'status' | 'reason' | 'evidence' | 'route'>;
+
+/** Route paths may be absolute URLs (e.g. a partner checkout); relative ones are joined to the profile baseUrl. */
+export function joinUrl(baseUrl: string, routePath: string): string {
+  if (!routePath) return baseUrl;
+  if (/^https?:\/\//i.test(routePath)) return routePath;
+  const base = baseUrl.replace(/\/+$/, '');
+  const rel = routePath.startsWith('/') ? routePath : `/${routePath}`;
+  return `${base}${rel}`;
+}
+
+function inferRouteKey(req: NormalizedRequirement, profile: SiteProfile): RouteKey {
+  if (req.automation.type === AutomationType.element_visibility) {
+    const override = profile.elementVisibilityById?.[req.id]?.route;
+    if (override) return override;
+  }
+  if (req.automation.type === AutomationType.cookie_banner_compliance) return 'home';
+  if (req.automation.type === AutomationType.network_sniffing) return 'home';
+  if (req.automation.type === AutomationType.checkbox_state) return 'checkout';
+  if (req.automation.type === AutomationType.button_text_exact) return 'checkout';
+  if (req.automation.type === AutomationType.currency_check) {
+    if (profile.routes?.listing) return 'listing';
+    if (profile.routes?.product) return 'product';
+    return 'home';
+  }
+
+  const where = (req.whereToVerify || '').toLowerCase();
+  if (where.includes('contact')) return 'contact';
+  if (where.includes('confiden') || where.includes('privacy')) return 'privacy';
+  if (where.includes('cookie')) return 'cookies';
+  if (
+    where.includes('t&c') ||
+    where.includes('termeni') ||
+    where.includes('conditii') ||
+    where.includes('condiții')
+  ) {
+    return 'terms';
+  }
+  if (
+    where.includes('checkout') ||
+    where.includes('coș') ||
+    where.includes('cos') ||
+    where.includes('cart')
+  ) {
+    return 'checkout';
+  }
+  if (where.includes('retur') || where.includes('returns')) return 'returns';
+  if (where.includes('pagina produs') || where.includes('produs')) return 'product';
+
+  return 'home';
+}
+
+function parseRouteList(value: unknown): RouteKey[] {
+  if (!Array.isArray(value)) return [];
+  const known = new Set<string>(ROUTE_KEYS);
+  const out: RouteKey[] = [];
+  for (const v of value) {
+    const key = String(v).trim();
+    if (known.has(key) && !out.includes(key as RouteKey)) out.push(key as RouteKey);
+  }
+  return out;
+}
+
+function parseMode(value: unknown): RouteMode {
+  return String(value || '')
+    .toLowerCase()
+    .trim() === 'all'
+    ? 'all'
+    : 'any';
+}
+
+/**
+ * Decides which route(s) a requirement is checked on. Precedence:
+ * site profile `routesById` > checklist `automation.routes` > `inferRouteKey` heuristics
+ * (which still honour `elementVisibilityById[id].route`).
+ */
+export function resolveRoutePlan(req: NormalizedRequirement, profile: SiteProfile): RoutePlan {
+  const override = profile.routesById?.[req.id];
+  const overrideRoutes = parseRouteList(override?.routes);
+  if (overrideRoutes.length)
+    return { routes: overrideRoutes, mode: parseMode(override?.mode), source: 'profile' };
+
+  const listed = parseRouteList(req.automation.raw.routes);
+  if (listed.length)
+    return { routes: listed, mode: parseMode(req.automation.raw.routes_mode), source: 'checklist' };
+
+  return { routes: [inferRouteKey(req, profile)], mode: 'any', source: 'inferred' };
+}
+
+function pick(outcomes: RouteOutcome[], status: ResultStatus): RouteOutcome | undefined {
+  return outcomes.find(o => o.status === status);
+}
+
+function summarizeRoutes(outcomes: RouteOutcome[]): string {
+  return outcomes.map(o => `${o.routeKey}=${o.status}`).join(', ');
+}
+
+/**
+ * Folds the per-route outcomes of one requirement into a single result.
+ * The decisive outcome provides status, reason and evidence; screenshots from every route are kept.
+ */
+export function combineRouteOutcomes(plan: RoutePlan, recorded: RouteOutcome[]): RoutedPartial {
+  // Routes may finish in any order (parallel runs); always fold them in plan order.
+  const outcomes = [...recorded].sort(
+    (a, b) => plan.routes.indexOf(a.routeKey) - plan.routes.indexOf(b.routeKey)
+  );
+  const checked = outcomes.map(o => ({ key: o.routeKey, status: o.status, reason: o.reason }));
+  const screenshots = outcomes.flatMap(o => o.evidence.screenshots || []);
+
+  const build = (decisive: RouteOutcome, status: ResultStatus, reason: string): RoutedPartial => ({
+    status,
+    reason,
+    evidence: { ...decisive.evidence, ...(screenshots.length ? { screenshots } : {}) },
+    route: { key: decisive.routeKey, mode: plan.mode, source: plan.source, checked },
+  });
+
+  if (outcomes.length === 0) {
+    return {
+      status: 'SKIPPED',
+      reason: 'no route outcome recorded',
+      evidence: { url: undefined },
+      route: { mode: plan.mode, source: plan.source, checked },
+    };
+  }
+
+  if (outcomes.length === 1) {
+    const only = outcomes[0];
+    return build(only, only.status, only.reason);
+  }
+
+  const routes = summarizeRoutes(outcomes);
+
+  if (plan.mode === 'any') {
+    const passed = pick(outcomes, 'PASS');
+    if (passed) return build(passed, 'PASS', `${passed.reason} [route ${passed.routeKey}]`);
+
+    const worst = pick(outcomes, 'FAIL') || pick(outcomes, 'WARN');
+    if (worst) return build(worst, worst.status, `${worst.reason} [no route satisfied: ${routes}]`);
+
+    return build(outcomes[0], 'SKIPPED', `${outcomes[0].reason} [${routes}]`);
+  }
+
+  const failed = pick(outcomes, 'FAIL') || pick(outcomes, 'WARN');
+  if (failed)
+    return build(failed, failed.status, `${failed.reason} [route ${failed.routeKey}; ${routes}]`);
+
+  const passed = outcomes.filter(o => o.status === 'PASS');
+  if (passed.length === outcomes.length) {
+    return build(passed[0], 'PASS', `${passed[0].reason} [all routes: ${routes}]`);
+  }
+  if (passed.length === 0) {
+    return build(outcomes[0], 'SKIPPED', `${outcomes[0].reason} [${routes}]`);
+  }
+
+  // Some routes passed, others could not be checked: "all" cannot be confirmed.
+  const unverified = outcomes.find(o => o.status !== 'PASS') || outcomes[0];
+  return build(unverified, 'WARN', `not verified on every route (${routes}): ${unverified.reason}`);
+}
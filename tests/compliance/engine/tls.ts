@@ -0,0 +1,258 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import path from 'path';
+import tls from 'tls';
+
+export const TLS_PROTOCOLS = ['TLSv1', 'TLSv1.1', 'TLSv1.2', 'TLSv1.3'] as const;
+export type TlsProtocol = (typeof TLS_PROTOCOLS)[number];
+
+/** Protocols a compliant server should no longer accept. */
+export const LEGACY_TLS_PROTOCOLS: readonly TlsProtocol[] = ['TLSv1', 'TLSv1.1'];
+
+export type CertificateInfo = {
+  subject: string;
+  issuer: string;
+  validFrom: string;
+  validTo: string;
+  daysToExpiry: number;
+  /** Chain validated against the trusted CAs (system store plus `COMPLIANCE_TLS_CA_FILE`). */
+  trusted: boolean;
+  /** Chain or hostname problem, e.g. SELF_SIGNED_CERT_IN_CHAIN or a hostname mismatch. */
+  error?: string;
+};
+
+export type HstsInfo = {
+  present: boolean;
+  header?: string;
+  maxAge?: number;
+  includeSubDomains: boolean;
+  preload: boolean;
+};
+
+export type HttpRedirectInfo =
+  | { outcome: 'redirects_to_https'; status: number; location: string }
+  | { outcome: 'redirects_elsewhere'; status: number; location: string }
+  | { outcome: 'serves_http'; status: number }
+  | { outcome: 'not_served'; detail: string };
+
+export type TlsInspectOptions = {
+  /** Extra trusted CA certificates (PEM), e.g. for a locally generated self-signed server. */
+  ca?: string | Buffer;
+  timeoutMs?: number;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** `COMPLIANCE_TLS_CA_FILE` adds a PEM CA to the trust store of the TLS inspector (not of the browser). */
+export function readTlsCaFromEnv(): Buffer | undefined {
+  const file = String(process.env.COMPLIANCE_TLS_CA_FILE || '').trim();
+  return file ? fs.readFileSync(path.resolve(file)) : undefined;
+}
+
+function describeName(name: tls.PeerCertificate['subject'] | undefined): string {
+  if (!name) return '';
+  const pick = (key: string): string | undefined => {
+    const v = name[key];
+    return Array.isArray(v) ? v.join(', ') : v;
+  };
+  return [pick('CN') && `CN=${pick('CN')}`, pick('O') && `O=${pick('O')}`]
+    .filter(Boolean)
+    .join(', ');
+}
+
+/** System error code (`ECONNREFUSED`, ...) or message of a rejection. */
+function errorDetail(e: unknown): string | undefined {
+  const code = (e as NodeJS.ErrnoException | undefined)?.code;
+  return code || (e instanceof Error ? e.message : undefined);
+}
+
+function connect(
+  host: string,
+  port: number,
+  options: { protocol?: TlsProtocol; ca?: string | Buffer; timeoutMs: number }
+): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const legacy = options.protocol && LEGACY_TLS_PROTOCOLS.includes(options.protocol);
+    const socket = tls.connect({
+      host,
+      port,
+      servername: net.isIP(host) ? undefined : host,
+      rejectUnauthorized: false,
+      ca: options.ca ? [...tls.rootCertificates, options.ca.toString()] : undefined,
+      minVersion: options.protocol,
+      maxVersion: options.protocol,
+      // OpenSSL refuses TLS 1.0/1.1 at its default security level; lower it only to probe what the server accepts.
+      ciphers: legacy ? 'DEFAULT:@SECLEVEL=0' : undefined,
+    });
+    const timer = setTimeout(
+      () => socket.destroy(new Error(`TLS handshake timed out after ${options.timeoutMs} ms`)),
+      options.timeoutMs
+    );
+    socket.once('secureConnect', () => {
+      clearTimeout(timer);
+      resolve(socket);
+    });
+    socket.once('error', e => {
+      clearTimeout(timer);
+      reject(e);
+    });
+  });
+}
+
+async function readCertificate(
+  host: string,
+  port: number,
+  options: TlsInspectOptions,
+  timeoutMs: number
+): Promise<Pick<TlsReport, 'certificate' | 'negotiated'>> {
+  const socket = await connect(host, port, { ca: options.ca, timeoutMs });
+  try {
+    const cert = socket.getPeerCertificate();
+    const hostnameError = tls.checkServerIdentity(host, cert);
+    const chainError = socket.authorized
+      ? undefined
+      : String(socket.authorizationError || 'untrusted certificate');
+    const error = chainError || hostnameError?.message;
+    const validTo = new Date(cert.valid_to);
+    const info: CertificateInfo = {
+      subject: describeName(cert.subject),
+      issuer: describeName(cert.issuer),
+      validFrom: new Date(cert.valid_from).toISOString(),
+      validTo: validTo.toISOString(),
+      daysToExpiry: Math.floor((validTo.getTime() - Date.now()) / DAY_MS),
+      trusted: !error,
+      ...(error ? { error } : {}),
+    };
+    return { certificate: info, negotiated: socket.getProtocol() || undefined };
+  } finally {
+    socket.destroy();
+  }
+}
+
+async function probeProtocols(
+  host: string,
+  port: number,
+  timeoutMs: number
+): Promise<Record<TlsProtocol, boolean>> {
+  const out = {} as Record<TlsProtocol, boolean>;
+  for (const protocol of TLS_PROTOCOLS) {
+    try {
+      (await connect(host, port, { protocol, timeoutMs })).destroy();
+      out[protocol] = true;
+    } catch {
+      out[protocol] = false;
+    }
+  }
+  return out;
+}
+
+export function parseHsts(header: string | undefined): HstsInfo {
+  if (!header) return { present: false, includeSubDomains: false, preload: false };
+  const directives = header.split(';').map(d => d.trim().toLowerCase());
+  const maxAge = directives
+    .map(d => /^max-age\s*=\s*"?(\d+)"?$/.exec(d)?.[1])
+    .find(v => v !== undefined);
+  return {
+    present: true,
+    header,
+    maxAge: maxAge === undefined ? undefined : Number(maxAge),
+    includeSubDomains: directives.includes('includesubdomains'),
+    preload: directives.includes('preload'),
+  };
+}
+
+function readHsts(url: URL, options: TlsInspectOptions, timeoutMs: number): Promise<HstsInfo> {
+  return new Promise((resolve, reject) => {
+    const req = https.request(
+      url,
+      { method: 'GET', rejectUnauthorized: false, ca: options.ca, timeout: timeoutMs },
+      res => {
+        const header = res.headers['strict-transport-security'];
+        res.destroy();
+        resolve(parseHsts(typeof header === 'string' ? header : header?.[0]));
+      }
+    );
+    req.on('timeout', () =>
+      req.destroy(new Error(`HTTPS request timed out after ${timeoutMs} ms`))
+    );
+    req.on('error', reject);
+    req.end();
+  });
+}
+
+/** Requests the plain-HTTP variant of `url` without following redirects. */
+export function probeHttpRedirect(
+  url: URL,
+  httpPort: number,
+  timeoutMs: number
+): Promise<HttpRedirectInfo> {
+  const target = new URL(url.toString());
+  target.protocol = 'http:';
+  target.port = httpPort === 80 ? '' : String(httpPort);
+  return new Promise(resolve => {
+    const req = http.request(target, { method: 'GET', timeout: timeoutMs }, res => {
+      res.destroy();
+      const status = res.statusCode || 0;
+      const location = String(res.headers.location || '');
+      if (status >= 300 && status < 400 && location) {
+        const resolved = new URL(location, target).toString();
+        resolve(
+          /^https:\/\//i.test(resolved)
+            ? { outcome: 'redirects_to_https', status, location: resolved }
+            : { outcome: 'redirects_elsewhere', status, location: resolved }
+        );
+      } else {
+        resolve({ outcome: 'serves_http', status });
+      }
+    });
+    req.on('timeout', () => req.destroy(new Error(`timed out after ${timeoutMs} ms`)));
+    req.on('error', e =>
+      resolve({ outcome: 'not_served', detail: errorDetail(e) || 'connection failed' })
+    );
+    req.end();
+  });
+}
+
+export type TlsReport = {
+  host: string;
+  port: number;
+  certificate?: CertificateInfo;
+  negotiated?: string;
+  protocols: Record<TlsProtocol, boolean>;
+  hsts?: HstsInfo;
+  /** Connection-level failures (handshake, HTTPS request). */
+  errors: string[];
+};
+
+/** Certificate, accepted protocol versions and HSTS of the server behind an https:// URL. */
+export async function inspectTls(
+  httpsUrl: string,
+  options: TlsInspectOptions = {}
+): Promise<TlsReport> {
+  const url = new URL(httpsUrl);
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const port = Number(url.port) || 443;
+  const timeoutMs = options.timeoutMs || 10000;
+  const report: TlsReport = {
+    host,
+    port,
+    protocols: await probeProtocols(host, port, timeoutMs),
+    errors: [],
+  };
+
+  try {
+    Object.assign(report, await readCertificate(host, port, options, timeoutMs));
+  } catch (e) {
+    report.errors.push(`TLS handshake failed (${errorDetail(e) || 'unknown error'})`);
+    return report;
+  }
+
+  try {
+    report.hsts = await readHsts(url, options, timeoutMs);
+  } catch (e) {
+    report.errors.push(`HTTPS request failed (${errorDetail(e) || 'unknown error'})`);
+  }
+  return report;
+}
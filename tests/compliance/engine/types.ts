@@ -2,7 +2,7 @@ export type Severity = 'CRITIC' | 'RIDICAT' | 'MEDIU' | 'SCAZUT';
 
 export type Scope = 'MANDATORY' | 'BEST_PRACTICE';
 
-export type ResultStatus = 'PASS' | 'FAIL' | 'WARN' | 'SKIPPED';
+export type ResultStatus = 'PASS' | 'FAIL' | 'WARN' | 'SKIPPED' | 'WAIVED';
 
 export enum AutomationType {
   keyword_search = 'keyword_search',
@@ -15,6 +15,14 @@ export enum AutomationType {
   cookie_banner_compliance = 'cookie_banner_compliance',
   network_sniffing = 'network_sniffing',
   element_visibility = 'element_visibility',
+  accessibility_audit = 'accessibility_audit',
+  keyboard_navigation = 'keyboard_navigation',
+  omnibus_price = 'omnibus_price',
+  credit_disclosure = 'credit_disclosure',
+  form_consent = 'form_consent',
+  cookie_lifecycle = 'cookie_lifecycle',
+  legal_clause = 'legal_clause',
+  company_identity = 'company_identity',
   manual_check = 'manual_check',
 }
 
@@ -72,14 +80,36 @@ export type NormalizedRequirement = {
 
 export type Evidence = {
   url?: string;
+  /** Crawl mode: the page (possibly linked from `url`) whose content satisfied the requirement. */
+  satisfiedByUrl?: string;
+  /** Crawl mode: every page whose content was inspected, starting with `url`. */
+  crawledUrls?: string[];
   matchedSnippets?: string[];
   selectorsUsed?: string[];
   requestsSample?: string[];
+  /** link_presence liveness: response chain per probed link, final answer last. */
+  redirectChains?: Array<{
+    url: string;
+    hops: Array<{ url: string; status: number }>;
+    live: boolean;
+    error?: string;
+  }>;
   screenshots?: Array<{
     /** Path relative to the HTML report file location (portable between machines if kept within reports folder). */
     path: string;
     caption?: string;
   }>;
+  /** Elements the verdict is about, so reviewers do not have to find them on the full-page screenshot. */
+  elements?: Array<{
+    /** Selector or Playwright locator description that found the element. */
+    locator: string;
+    /** Whitespace-collapsed `outerHTML`, truncated. */
+    outerHTML: string;
+    /** Document coordinates in CSS pixels (of the element's frame); `null` when the element is not rendered. */
+    boundingBox: { x: number; y: number; width: number; height: number } | null;
+    /** Crop around the element with the element outlined; same path convention as `screenshots`. */
+    screenshot?: { path: string; caption?: string };
+  }>;
 };
 
 export type CheckResult = {
@@ -97,6 +127,39 @@ export type CheckResult = {
     desc?: string;
     automationType?: string;
   };
+  /** Route(s) the requirement was checked on; `key` is the route whose outcome decided the result. */
+  route?: {
+    key?: string;
+    mode: 'any' | 'all';
+    source: 'profile' | 'checklist' | 'inferred';
+    checked: Array<{ key: string; status: ResultStatus; reason: string }>;
+  };
+  /** Bilingual runs: per-language outcomes; `primary` decided the status, `mismatch` flags PASS in one language only. */
+  languages?: {
+    primary: string;
+    mismatch: boolean;
+    results: Array<{ lang: string; status: ResultStatus; reason: string; url?: string }>;
+  };
+  /** Present when a waiver matched this result (active: status is WAIVED; expired: original status kept). */
+  waiver?: {
+    justification: string;
+    owner: string;
+    expires: string;
+    originalStatus: ResultStatus;
+    expired: boolean;
+  };
+  /** Present when a manual attestation matched this SKIPPED result (fresh: status is the attested one; stale: SKIPPED kept). */
+  attestation?: {
+    status: 'PASS' | 'FAIL';
+    note: string;
+    auditor: string;
+    date: string;
+    expires: string;
+    /** Files backing the verdict, relative to the repository root. */
+    evidence: string[];
+    originalStatus: ResultStatus;
+    stale: boolean;
+  };
 };
 
 export type RunFilters = {
@@ -115,6 +178,12 @@ export type ComplianceReport = {
     filters: RunFilters;
     checklistVersion?: string;
     checklistTitle?: string;
+    /** Checklist the run used, relative to the working directory (the repository root). */
+    checklistFile?: string;
+    waiversFile?: string;
+    attestationsFile?: string;
+    /** Language variants checked (primary first); absent for single-language runs. */
+    languages?: string[];
   };
   summary: {
     total: number;
@@ -122,6 +191,14 @@ export type ComplianceReport = {
     fail: number;
     warn: number;
     skipped: number;
+    /** Accepted findings; not counted in `fail`/`warn`. */
+    waived: number;
+    /** Results decided by a fresh manual attestation (already counted in `pass`/`fail`). */
+    attested?: number;
+    /** Attestations past their validity; the result stays SKIPPED until the requirement is re-audited. */
+    staleAttestations?: number;
+    /** Bilingual runs: requirements that pass in one language but fail in another. */
+    languageMismatches?: number;
   };
   results: CheckResult[];
 };
@@ -139,7 +216,9 @@ export function normalizeDiacritics(input: string): string {
 }
 
 export function parseSeverity(input: string): Severity | null {
-  const normalized = normalizeDiacritics(String(input || '')).toUpperCase().trim();
+  const normalized = normalizeDiacritics(String(input || ''))
+    .toUpperCase()
+    .trim();
   if (normalized === 'CRITIC') return 'CRITIC';
   if (normalized === 'RIDICAT') return 'RIDICAT';
   if (normalized === 'MEDIU') return 'MEDIU';
@@ -148,7 +227,9 @@ export function parseSeverity(input: string): Severity | null {
 }
 
 export function parseScope(input: string): Scope | null {
-  const normalized = String(input || '').toUpperCase().trim();
+  const normalized = String(input || '')
+    .toUpperCase()
+    .trim();
   if (normalized === 'MANDATORY') return 'MANDATORY';
   if (normalized === 'BEST_PRACTICE') return 'BEST_PRACTICE';
   return null;
@@ -179,6 +260,22 @@ export function parseAutomationType(input: string | undefined): AutomationType |
       return AutomationType.network_sniffing;
     case AutomationType.element_visibility:
       return AutomationType.element_visibility;
+    case AutomationType.accessibility_audit:
+      return AutomationType.accessibility_audit;
+    case AutomationType.keyboard_navigation:
+      return AutomationType.keyboard_navigation;
+    case AutomationType.omnibus_price:
+      return AutomationType.omnibus_price;
+    case AutomationType.credit_disclosure:
+      return AutomationType.credit_disclosure;
+    case AutomationType.form_consent:
+      return AutomationType.form_consent;
+    case AutomationType.cookie_lifecycle:
+      return AutomationType.cookie_lifecycle;
+    case AutomationType.legal_clause:
+      return AutomationType.legal_clause;
+    case AutomationType.company_identity:
+      return AutomationType.company_identity;
     case AutomationType.manual_check:
       return AutomationType.manual_check;
     default:
@@ -0,0 +1,184 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+export const VENDOR_CATEGORIES = ['necessary', 'analytics', 'marketing'] as const;
+export type VendorCategory = (typeof VENDOR_CATEGORIES)[number];
+
+/** Catalog entry as written in vendors.yaml or in a site profile's `vendors` list. */
+export type VendorDefinition = {
+  name: string;
+  category: VendorCategory;
+  domains?: string[];
+  cookies?: string[];
+  urlPatterns?: string[];
+};
+
+export type Vendor = {
+  name: string;
+  category: VendorCategory;
+  /** Registrable domains (and their subdomains) the vendor sets cookies on / serves from. */
+  domains: string[];
+  /** Cookie / localStorage key names, as case-insensitive regular expressions. */
+  cookies: RegExp[];
+  /** Request URLs (full URL, case-insensitive), for endpoints served outside the vendor's domains. */
+  urlPatterns: RegExp[];
+};
+
+export class VendorCatalogError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public problems: string[] = []
+  ) {
+    super(problems.length ? `${message}\n${problems.map(p => `  - ${p}`).join('\n')}` : message);
+    this.name = 'VendorCatalogError';
+  }
+}
+
+export function resolveVendorCatalogPath(): string {
+  const fromEnv = String(process.env.COMPLIANCE_VENDORS_FILE || '').trim();
+  return fromEnv
+    ? path.resolve(fromEnv)
+    : path.join(process.cwd(), 'tests', 'compliance', 'vendors', 'vendors.yaml');
+}
+
+/** Validates raw catalog entries; `at` prefixes problem messages (e.g. "vendors" or a profile path). */
+export function parseVendorDefinitions(
+  list: unknown[],
+  at: string
+): { vendors: Vendor[]; problems: string[] } {
+  const problems: string[] = [];
+  const vendors: Vendor[] = [];
+  list.forEach((value, index) => {
+    const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+    const where = `${at}[${index}]${typeof entry.name === 'string' ? ` (${entry.name})` : ''}`;
+    if (typeof entry.name !== 'string' || !entry.name.trim()) {
+      problems.push(`${where}: missing name`);
+      return;
+    }
+    const category = String(entry.category || '');
+    if (!(VENDOR_CATEGORIES as readonly string[]).includes(category)) {
+      problems.push(`${where}: category must be one of ${VENDOR_CATEGORIES.join(', ')}`);
+      return;
+    }
+    const strings = (key: string) =>
+      Array.isArray(entry[key]) ? (entry[key] as unknown[]).map(String) : [];
+    const patterns = (key: string) => {
+      const out: RegExp[] = [];
+      for (const pattern of strings(key)) {
+        try {
+          out.push(new RegExp(pattern, 'i'));
+        } catch (e: any) {
+          problems.push(
+            `${where}: invalid ${key} pattern "${pattern}" (${e?.message || 'unknown error'})`
+          );
+        }
+      }
+      return out;
+    };
+
+    const cookies = patterns('cookies');
+    const urlPatterns = patterns('urlPatterns');
+    const domains = strings('domains')
+      .map(d => d.trim().toLowerCase().replace(/^\./, ''))
+      .filter(Boolean);
+    if (!cookies.length && !domains.length && !urlPatterns.length) {
+      problems.push(`${where}: needs at least one cookie pattern, domain or URL pattern`);
+      return;
+    }
+    vendors.push({
+      name: entry.name.trim(),
+      category: category as VendorCategory,
+      domains,
+      cookies,
+      urlPatterns,
+    });
+  });
+  return { vendors, problems };
+}
+
+/**
+ * Reads and validates the vendor catalog. Unlike waivers, the catalog is required: without it every cookie
+ * would be "unknown" and consent checks could not tell analytics from session cookies.
+ */
+export function loadVendorCatalog(filePath: string = resolveVendorCatalogPath()): Vendor[] {
+  let parsed: unknown;
+  try {
+    const text = fs.readFileSync(filePath, 'utf-8');
+    parsed = /\.json$/i.test(filePath) ? JSON.parse(text) : YAML.parse(text);
+  } catch (e: any) {
+    throw new VendorCatalogError(
+      `cannot read vendor catalog ${filePath} (${e?.message || 'unknown error'})`,
+      filePath
+    );
+  }
+
+  const list = (parsed as { vendors?: unknown } | null)?.vendors;
+  if (!Array.isArray(list)) {
+    throw new VendorCatalogError(
+      `vendor catalog ${filePath} must contain a "vendors" list`,
+      filePath
+    );
+  }
+
+  const { vendors, problems } = parseVendorDefinitions(list, 'vendors');
+  if (problems.length) {
+    throw new VendorCatalogError(`vendor catalog ${filePath} is invalid`, filePath, problems);
+  }
+  return vendors;
+}
+
+export function domainMatches(host: string, domain: string): boolean {
+  const h = host.toLowerCase().replace(/^\./, '');
+  return h === domain || h.endsWith(`.${domain}`);
+}
+
+/**
+ * Cookie name patterns win over domains: a first-party `_ga` cookie is still Google Analytics.
+ * `domain` is optional so the same lookup serves localStorage keys.
+ */
+export function classifyStorageItem(
+  vendors: Vendor[],
+  item: { name: string; domain?: string }
+): Vendor | null {
+  return (
+    vendors.find(v => v.cookies.some(re => re.test(item.name))) ||
+    (item.domain
+      ? vendors.find(v => v.domains.some(d => domainMatches(item.domain!, d)))
+      : undefined) ||
+    null
+  );
+}
+
+export function classifyRequest(vendors: Vendor[], url: string): Vendor | null {
+  let host: string;
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    return null;
+  }
+  return (
+    vendors.find(v => v.urlPatterns.some(re => re.test(url))) ||
+    vendors.find(v => v.domains.some(d => domainMatches(host, d))) ||
+    null
+  );
+}
+
+const catalogCache = new Map<string, Vendor[]>();
+
+/**
+ * The shared catalog plus the profile's own `vendors`. A profile entry replaces the catalog entry with the same
+ * name and is matched first, so a site can reclassify a vendor (e.g. its own first-party analytics endpoint).
+ */
+export function vendorCatalogFor(profile: { vendors?: VendorDefinition[] }): Vendor[] {
+  const filePath = resolveVendorCatalogPath();
+  let base = catalogCache.get(filePath);
+  if (!base) {
+    base = loadVendorCatalog(filePath);
+    catalogCache.set(filePath, base);
+  }
+  const { vendors: own } = parseVendorDefinitions(profile.vendors || [], 'profile.vendors');
+  const replaced = new Set(own.map(v => v.name.toLowerCase()));
+  return [...own, ...base.filter(v => !replaced.has(v.name.toLowerCase()))];
+}
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import type { CheckResult } from './types';
+
+export type Waiver = {
+  /** Requirement id from the checklist (e.g. "2.6"). */
+  id: string;
+  siteId: string;
+  justification: string;
+  owner: string;
+  /** ISO date (YYYY-MM-DD, valid through the end of that day UTC) or full ISO timestamp. */
+  expires: string;
+};
+
+export class WaiverFileError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public problems: string[] = []
+  ) {
+    super(problems.length ? `${message}\n${problems.map(p => `  - ${p}`).join('\n')}` : message);
+    this.name = 'WaiverFileError';
+  }
+}
+
+/** Only real findings can be waived; PASS/SKIPPED results are left untouched. */
+const WAIVABLE_STATUSES = new Set<CheckResult['status']>(['FAIL', 'WARN']);
+
+export function resolveWaiversPath(): string {
+  const fromEnv = String(process.env.COMPLIANCE_WAIVERS_FILE || '').trim();
+  return fromEnv
+    ? path.resolve(fromEnv)
+    : path.join(process.cwd(), 'tests', 'compliance', 'waivers', 'waivers.yaml');
+}
+
+export function waiverExpiry(waiver: Pick<Waiver, 'expires'>): Date {
+  const raw = String(waiver.expires).trim();
+  return new Date(/^\d{4}-\d{2}-\d{2}$/.test(raw) ? `${raw}T23:59:59.999Z` : raw);
+}
+
+/**
+ * Reads and validates the waiver file. A missing file means "no waivers"; a malformed one is an error,
+ * because silently dropping a waiver would turn accepted findings back into failures (and vice versa).
+ */
+export function loadWaivers(filePath: string = resolveWaiversPath()): Waiver[] {
+  if (!fs.existsSync(filePath)) return [];
+
+  const text = fs.readFileSync(filePath, 'utf-8');
+  let parsed: unknown;
+  try {
+    parsed = /\.json$/i.test(filePath) ? JSON.parse(text) : YAML.parse(text);
+  } catch (e: any) {
+    throw new WaiverFileError(
+      `cannot parse waiver file ${filePath} (${e?.message || 'unknown error'})`,
+      filePath
+    );
+  }
+
+  const list = (parsed as { waivers?: unknown } | null)?.waivers ?? [];
+  if (!Array.isArray(list)) {
+    throw new WaiverFileError(`waiver file ${filePath} must contain a "waivers" list`, filePath);
+  }
+
+  const problems: string[] = [];
+  const waivers: Waiver[] = [];
+  list.forEach((entry: Record<string, unknown> | null, index) => {
+    const at = `waivers[${index}]`;
+    const missing = ['id', 'siteId', 'justification', 'owner', 'expires'].filter(
+      key => typeof entry?.[key] !== 'string' || !String(entry[key]).trim()
+    );
+    if (missing.length) {
+      problems.push(`${at}: missing ${missing.join(', ')}`);
+      return;
+    }
+    const waiver = entry as unknown as Waiver;
+    if (Number.isNaN(waiverExpiry(waiver).getTime())) {
+      problems.push(
+        `${at} (${waiver.id}): invalid expires "${waiver.expires}" (expected YYYY-MM-DD)`
+      );
+      return;
+    }
+    waivers.push({ ...waiver, siteId: waiver.siteId.toLowerCase().trim(), id: waiver.id.trim() });
+  });
+
+  if (problems.length) {
+    throw new WaiverFileError(`invalid waiver file ${filePath}`, filePath, problems);
+  }
+  return waivers;
+}
+
+/**
+ * Marks FAIL/WARN results covered by an active waiver as WAIVED.
+ * Expired waivers keep the original status and say so in the reason, so a lapsed acceptance is visible.
+ */
+export function applyWaivers(
+  results: CheckResult[],
+  waivers: Waiver[],
+  siteId: string,
+  now: Date
+): CheckResult[] {
+  const site = siteId.toLowerCase().trim();
+  const byId = new Map<string, Waiver>();
+  for (const w of waivers) {
+    if (w.siteId !== site) continue;
+    const existing = byId.get(w.id);
+    // When several waivers target the same requirement, the one that lasts longest wins.
+    if (!existing || waiverExpiry(w) > waiverExpiry(existing)) byId.set(w.id, w);
+  }
+
+  return results.map(r => {
+    const waiver = byId.get(r.id);
+    if (!waiver || !WAIVABLE_STATUSES.has(r.status)) return r;
+
+    const expired = waiverExpiry(waiver).getTime() < now.getTime();
+    const details = {
+      justification: waiver.justification,
+      owner: waiver.owner,
+      expires: waiver.expires,
+      originalStatus: r.status,
+      expired,
+    };
+
+    if (expired) {
+      return {
+        ...r,
+        reason: `${r.reason} (waiver expired on ${waiver.expires}, owner ${waiver.owner})`,
+        waiver: details,
+      };
+    }
+
+    return {
+      ...r,
+      status: 'WAIVED',
+      reason: `waived until ${waiver.expires} by ${waiver.owner}: ${waiver.justification} (original ${r.status}: ${r.reason})`,
+      waiver: details,
+    };
+  });
+}
@@ -0,0 +1,91 @@
+import fs from 'fs';
+import path from 'path';
+
+import { resolveAuditPath } from '../engine/checklist';
+import type { ComplianceReport } from '../engine/types';
+import { toJUnitXml, type JUnitOptions } from './junit';
+import { toSarif, type SarifOptions } from './sarif';
+
+export const EXPORT_FORMATS = ['junit', 'sarif'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/** Not `.json`: the trend/HTML scripts pick up every `compliance-report.*.json` as a report. */
+const EXTENSIONS: Record<ExportFormat, string> = {
+  junit: 'junit.xml',
+  sarif: 'sarif',
+};
+
+export class ExportFormatError extends Error {
+  constructor(
+    public source: string,
+    public unknown: string[]
+  ) {
+    super(
+      `${source}: unknown export format(s) ${unknown.join(', ')} (available: ${EXPORT_FORMATS.join(', ')})`
+    );
+    this.name = 'ExportFormatError';
+  }
+}
+
+/** Comma-separated format names; a typo throws instead of silently exporting nothing. */
+export function parseExportFormats(value: string, source: string): ExportFormat[] {
+  const out: ExportFormat[] = [];
+  const unknown: string[] = [];
+  for (const part of value.split(',')) {
+    const name = part.trim().toLowerCase();
+    if (!name) continue;
+    if (!(EXPORT_FORMATS as readonly string[]).includes(name)) unknown.push(name);
+    else if (!out.includes(name as ExportFormat)) out.push(name as ExportFormat);
+  }
+  if (unknown.length) throw new ExportFormatError(source, unknown);
+  return out;
+}
+
+/** `COMPLIANCE_EXPORT=junit,sarif`; nothing is exported by default. */
+export function readExportFormatsFromEnv(): ExportFormat[] {
+  return parseExportFormats(String(process.env.COMPLIANCE_EXPORT || ''), 'COMPLIANCE_EXPORT');
+}
+
+/**
+ * `checklistPath` overrides the checklist recorded in the report; reports written before the checklist was recorded
+ * fall back to the default one.
+ */
+export type ExportOptions = JUnitOptions & { checklistPath?: string };
+
+/** The checklist SARIF results point at, with its text for the requirement lines when the file is readable. */
+function sarifOptions(report: ComplianceReport, options: ExportOptions): SarifOptions {
+  const file = path.resolve(
+    options.checklistPath || report.meta.checklistFile || resolveAuditPath()
+  );
+  return {
+    checklist: {
+      uri: path.relative(process.cwd(), file),
+      text: fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : undefined,
+    },
+  };
+}
+
+export function renderExport(
+  report: ComplianceReport,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): string {
+  return format === 'junit'
+    ? toJUnitXml(report, options)
+    : `${JSON.stringify(toSarif(report, sarifOptions(report, options)), null, 2)}\n`;
+}
+
+/** Writes `<baseName>.<extension>` next to the JSON report for every format; returns the written paths. */
+export function writeExports(
+  report: ComplianceReport,
+  dir: string,
+  baseName: string,
+  formats: ExportFormat[],
+  options: ExportOptions = {}
+): string[] {
+  return formats.map(format => {
+    const outPath = path.join(dir, `${baseName}.${EXTENSIONS[format]}`);
+    fs.writeFileSync(outPath, renderExport(report, format, options), 'utf-8');
+    return outPath;
+  });
+}
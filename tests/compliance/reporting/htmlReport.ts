@@ -0,0 +1,863 @@
+import fs from 'fs';
+import path from 'path';
+
+import {
+  compareSeverity,
+  type CheckResult,
+  type ComplianceReport,
+  type ResultStatus,
+  type Severity,
+} from '../engine/types';
+import { dictionaryFor, type ReportDictionary, type ReportLanguage } from './i18n';
+import type { Trend } from './trend';
+
+export type HtmlReportOptions = {
+  lang: ReportLanguage;
+  trend?: Trend | null;
+  /** File name of the JSON report, shown in the header. */
+  sourceName?: string;
+  /** Directory the screenshot paths in the report are relative to (the JSON report's folder). */
+  assetsBaseDir: string;
+  /** Directory the HTML is written to; screenshot links are made relative to it. */
+  outputDir: string;
+  /** Inline screenshots as `data:` URIs so the HTML file can be sent on its own. */
+  selfContained?: boolean;
+};
+
+type Screenshot = NonNullable<CheckResult['evidence']['screenshots']>[number];
+
+const SEVERITIES: Severity[] = (['CRITIC', 'RIDICAT', 'MEDIU', 'SCAZUT'] as Severity[]).sort(
+  (a, b) => compareSeverity(b, a)
+);
+
+/** All checked initially: a printed audit must list unverified (SKIPPED) requirements too. */
+const STATUS_FILTERS: ResultStatus[] = ['PASS', 'FAIL', 'WARN', 'SKIPPED', 'WAIVED'];
+
+const STATUS_LETTER: Partial<Record<ResultStatus, string>> = {
+  PASS: 'P',
+  FAIL: 'F',
+  WARN: 'W',
+  SKIPPED: 'S',
+};
+
+const IMAGE_MIME: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+};
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function percent(part: number, total: number): string {
+  if (!total) return '0%';
+  return `${Math.round((part / total) * 100)}%`;
+}
+
+function statusLabel(status: string, dict: ReportDictionary): string {
+  return dict.status[status as ResultStatus] || String(status || dict.status.UNKNOWN);
+}
+
+function renderList(items: string[] | undefined, max: number): string {
+  const limited = (items || []).slice(0, max);
+  if (!limited.length) return '<div class="muted small">—</div>';
+  return `<ul>${limited.map(x => `<li>${escapeHtml(x)}</li>`).join('')}</ul>`;
+}
+
+/** Only http(s) URLs become links; anything else (`javascript:`, `data:`, relative paths) is shown as text. */
+function externalLink(url: string): string {
+  if (!/^https?:\/\//i.test(url.trim())) return `<span class="mono">${escapeHtml(url)}</span>`;
+  return `<a href="${escapeHtml(url)}" target="_blank" rel="noreferrer">${escapeHtml(url)}</a>`;
+}
+
+/**
+ * Image source for a screenshot: a `data:` URI in self-contained mode, otherwise a path relative to the HTML file.
+ * `null` when the file is not on disk (e.g. the report was copied without its assets folder).
+ */
+function screenshotSrc(shot: Screenshot, options: HtmlReportOptions): string | null {
+  const file = path.resolve(options.assetsBaseDir, shot.path);
+  if (!fs.existsSync(file)) return null;
+  if (options.selfContained) {
+    const mime = IMAGE_MIME[path.extname(file).toLowerCase()] || 'application/octet-stream';
+    return `data:${mime};base64,${fs.readFileSync(file).toString('base64')}`;
+  }
+  return path.relative(options.outputDir, file).split(path.sep).join('/');
+}
+
+function renderShot(
+  s: Screenshot,
+  alt: string,
+  dict: ReportDictionary,
+  options: HtmlReportOptions
+): string {
+  const src = screenshotSrc(s, options);
+  const caption = `<figcaption>${escapeHtml(s.caption || '')}</figcaption>`;
+  if (!src) {
+    return `
+          <figure class="shot missing">
+            <div class="small">${escapeHtml(dict.table.screenshotMissing)}: <span class="mono">${escapeHtml(s.path)}</span></div>
+            ${caption}
+          </figure>`;
+  }
+  // Not lazy-loaded: lazy images that were never scrolled into view print blank.
+  const img = `<img src="${escapeHtml(src)}" alt="${escapeHtml(s.caption || alt)}" />`;
+  // Browsers refuse to open data: URIs in a new tab, so only linked files get a full-size link.
+  return `
+          <figure class="shot">
+            ${options.selfContained ? img : `<a href="${escapeHtml(src)}" target="_blank" rel="noreferrer">${img}</a>`}
+            ${caption}
+          </figure>`;
+}
+
+function renderScreenshots(
+  r: CheckResult,
+  dict: ReportDictionary,
+  options: HtmlReportOptions
+): string {
+  const screenshots = r.evidence?.screenshots || [];
+  if (!screenshots.length)
+    return `<div class="muted small">${escapeHtml(dict.table.noScreenshots)}</div>`;
+  return screenshots
+    .slice(0, 6)
+    .map(s => renderShot(s, r.id, dict, options))
+    .join('');
+}
+
+/** Element evidence: outlined crop first (it is what the reviewer looks for), then box and HTML excerpt. */
+function renderElements(
+  r: CheckResult,
+  dict: ReportDictionary,
+  options: HtmlReportOptions
+): string {
+  return (r.evidence?.elements || [])
+    .map(el => {
+      const box = el.boundingBox;
+      return `
+            <div class="element">
+              ${el.screenshot ? renderShot(el.screenshot, el.locator, dict, options) : ''}
+              <div class="small mono">${escapeHtml(el.locator)}</div>
+              <div class="small muted">${
+                box
+                  ? escapeHtml(`x=${box.x}, y=${box.y}, ${box.width}×${box.height} px`)
+                  : escapeHtml(dict.table.notRendered)
+              }</div>
+              <pre class="mono small">${escapeHtml(el.outerHTML)}</pre>
+            </div>`;
+    })
+    .join('');
+}
+
+function renderRedirectChains(r: CheckResult): string {
+  const chains = r.evidence?.redirectChains || [];
+  return renderList(
+    chains.map(c => {
+      const hops = c.hops.map(h => String(h.status)).join(' → ');
+      return `${c.url}: ${hops || '—'} ${c.live ? 'live' : 'DEAD'}${c.error ? ` (${c.error})` : ''}`;
+    }),
+    10
+  );
+}
+
+function renderTrendSection(trend: Trend | null | undefined, dict: ReportDictionary): string {
+  if (!trend || trend.runs.length < 2) return '';
+  const td = dict.trend;
+
+  const renderIdList = (items: Trend['requirements']): string =>
+    items.length
+      ? `<ul>${items.map(r => `<li><span class="mono">${escapeHtml(r.id)}</span> ${escapeHtml(r.desc)}</li>`).join('')}</ul>`
+      : `<div class="muted small">${escapeHtml(td.none)}</div>`;
+
+  const signed = (n: number): string => (n > 0 ? `+${n}` : String(n));
+
+  return `
+    <section class="trend no-print" role="region" aria-label="${escapeHtml(td.region)}">
+      <h2>${escapeHtml(td.region)} <span class="muted small">(${trend.runs.length} ${escapeHtml(td.runs.toLowerCase())})</span></h2>
+      ${
+        trend.delta
+          ? `<div class="small">${escapeHtml(td.delta)}: PASS ${escapeHtml(signed(trend.delta.pass))} • FAIL ${escapeHtml(
+              signed(trend.delta.fail)
+            )} <span class="muted">(${escapeHtml(trend.delta.from)} → ${escapeHtml(trend.delta.to)})</span></div>`
+          : ''
+      }
+      <table>
+        <thead>
+          <tr>
+            <th>${escapeHtml(td.run)}</th>
+            <th>PASS</th>
+            <th>FAIL</th>
+            <th>WARN</th>
+            <th>SKIPPED</th>
+            <th>${escapeHtml(td.passRate)}</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${trend.runs
+            .map(
+              run => `
+          <tr>
+            <td class="mono">${escapeHtml(run.generatedAt || run.name)}</td>
+            <td>${Number(run.summary.pass || 0)}</td>
+            <td>${Number(run.summary.fail || 0)}</td>
+            <td>${Number(run.summary.warn || 0)}</td>
+            <td>${Number(run.summary.skipped || 0)}</td>
+            <td>${percent(run.summary.pass || 0, run.summary.total || 0)}</td>
+          </tr>`
+            )
+            .join('')}
+        </tbody>
+      </table>
+      <div class="grid trend-lists">
+        <div class="kv"><div class="k">${escapeHtml(td.regressions)}</div>${renderIdList(trend.regressions)}</div>
+        <div class="kv"><div class="k">${escapeHtml(td.improvements)}</div>${renderIdList(trend.improvements)}</div>
+        <div class="kv"><div class="k">${escapeHtml(td.flaky)}</div>${renderIdList(trend.flaky)}</div>
+      </div>
+      <details>
+        <summary>${escapeHtml(td.timeline)}</summary>
+        <div class="muted small">${escapeHtml(td.legend)}</div>
+        <table>
+          <tbody>
+            ${trend.requirements
+              .map(
+                r => `
+            <tr>
+              <td class="mono" style="width: 90px">${escapeHtml(r.id)}</td>
+              <td class="mono timeline">${r.statuses
+                .map(
+                  (st, i) =>
+                    `<span title="${escapeHtml(`${trend.runs[i].generatedAt}: ${st || '—'}`)}">${escapeHtml(
+                      (st && STATUS_LETTER[st]) || '·'
+                    )}</span>`
+                )
+                .join('')}</td>
+            </tr>`
+              )
+              .join('')}
+          </tbody>
+        </table>
+      </details>
+    </section>`;
+}
+
+function renderRow(r: CheckResult, dict: ReportDictionary, options: HtmlReportOptions): string {
+  const evidence = r.evidence || {};
+  const url = evidence.url || '';
+  const law = r.meta?.law || '';
+  const risk = r.meta?.risk || '';
+  const automation = r.meta?.automationType || '';
+  const desc = r.meta?.desc || '';
+  const reason = r.reason || '';
+  const where = r.whereToVerify || '';
+  const { waiver, attestation } = r;
+
+  const technical = {
+    url,
+    route: r.route,
+    satisfiedByUrl: evidence.satisfiedByUrl,
+    crawledUrls: evidence.crawledUrls,
+    redirectChains: evidence.redirectChains,
+    where,
+    severity: r.severity,
+    scope: r.scope,
+    law,
+    risk,
+    automation,
+    selectorsUsed: evidence.selectorsUsed || [],
+    matchedSnippets: evidence.matchedSnippets || [],
+    requestsSample: evidence.requestsSample || [],
+    screenshots: evidence.screenshots || [],
+    elements: (evidence.elements || []).map(el => ({
+      locator: el.locator,
+      boundingBox: el.boundingBox,
+      screenshot: el.screenshot,
+    })),
+  };
+
+  return `
+                  <tr data-status="${escapeHtml(r.status)}" data-section="${escapeHtml(r.sectionKey)}" data-severity="${escapeHtml(
+                    r.severity
+                  )}" data-search="${escapeHtml(`${r.id} ${r.sectionKey} ${desc} ${reason} ${where} ${law} ${risk}`.toLowerCase())}">
+                    <td class="mono">${escapeHtml(r.id)}</td>
+                    <td>
+                      <span class="pill status-${escapeHtml(r.status)}">${escapeHtml(statusLabel(r.status, dict))}</span>
+                      ${
+                        r.languages?.results?.length
+                          ? `<div class="small mono">${r.languages.results
+                              .map(l => `${escapeHtml(l.lang)}: ${escapeHtml(l.status)}`)
+                              .join('<br />')}</div>`
+                          : ''
+                      }
+                      ${r.languages?.mismatch ? `<div class="small"><strong>${escapeHtml(dict.table.languageMismatch)}</strong></div>` : ''}
+                    </td>
+                    <td>
+                      <div class="row">
+                        ${desc ? `<div>${escapeHtml(desc)}</div>` : ''}
+                        ${reason ? `<div class="muted small">${escapeHtml(dict.table.reason)}: ${escapeHtml(reason)}</div>` : ''}
+                        <div class="muted small">${escapeHtml(r.severity)} • ${escapeHtml(r.scope)}${automation ? ` • ${escapeHtml(automation)}` : ''}</div>
+                        ${
+                          law || risk
+                            ? `<div class="muted small">${escapeHtml(dict.table.ruleRisk)}: ${escapeHtml(law)}${
+                                risk ? ` • ${escapeHtml(dict.table.risk)}: ${escapeHtml(risk)}` : ''
+                              }</div>`
+                            : ''
+                        }
+                        ${
+                          waiver
+                            ? `<div class="small">${escapeHtml(waiver.expired ? dict.table.waiverExpired : dict.table.waiver)}: ${escapeHtml(
+                                waiver.justification
+                              )} • ${escapeHtml(waiver.owner)} • ${escapeHtml(waiver.expires)}</div>`
+                            : ''
+                        }
+                        ${
+                          attestation
+                            ? `<div class="small">${escapeHtml(
+                                attestation.stale
+                                  ? dict.table.attestationStale
+                                  : dict.table.attestation
+                              )}: ${escapeHtml(attestation.status)} • ${escapeHtml(attestation.auditor)} • ${escapeHtml(
+                                attestation.date
+                              )} → ${escapeHtml(attestation.expires)}${
+                                attestation.evidence.length
+                                  ? ` • ${attestation.evidence.map(p => `<span class="mono">${escapeHtml(p)}</span>`).join(', ')}`
+                                  : ''
+                              }</div>`
+                            : ''
+                        }
+                      </div>
+                    </td>
+                    <td>
+                      <div class="row">
+                        ${where ? `<div class="small">${escapeHtml(dict.table.where)}: ${escapeHtml(where)}</div>` : ''}
+                        ${
+                          r.route?.checked?.length
+                            ? `<div class="small">${escapeHtml(dict.table.route)}: <span class="mono">${escapeHtml(
+                                r.route.checked.map(c => `${c.key}=${c.status}`).join(', ')
+                              )}</span>${r.route.checked.length > 1 ? ` (${escapeHtml(r.route.mode)})` : ''}</div>`
+                            : ''
+                        }
+                        ${url ? `<div class="small">${escapeHtml(dict.table.url)}: ${externalLink(url)}</div>` : ''}
+                        ${
+                          evidence.satisfiedByUrl && evidence.satisfiedByUrl !== url
+                            ? `<div class="small">${escapeHtml(dict.table.satisfiedBy)}: ${externalLink(evidence.satisfiedByUrl)}</div>`
+                            : ''
+                        }
+                        <details class="evidence-toggle">
+                          <summary>${escapeHtml(dict.table.showEvidence)}</summary>
+                          <div class="evidence">
+                            ${
+                              evidence.elements?.length
+                                ? `<div class="kv">
+                              <div class="k">${escapeHtml(dict.table.elements)}</div>
+                              ${renderElements(r, dict, options)}
+                            </div>`
+                                : ''
+                            }
+                            <div class="kv">
+                              <div class="k">${escapeHtml(dict.table.screenshots)}</div>
+                              ${renderScreenshots(r, dict, options)}
+                            </div>
+                            <div class="kv">
+                              <div class="k">${escapeHtml(dict.table.evidenceSummary)}</div>
+                              <div class="small">${escapeHtml(dict.table.selectorsUsed)}:</div>
+                              ${renderList(evidence.selectorsUsed, 12)}
+                              <div class="small">${escapeHtml(dict.table.matchedSnippets)}:</div>
+                              ${renderList(evidence.matchedSnippets, 8)}
+                              <div class="small">${escapeHtml(dict.table.requestsSample)}:</div>
+                              ${renderList(evidence.requestsSample, 5)}
+                              ${
+                                evidence.crawledUrls?.length
+                                  ? `<div class="small">${escapeHtml(dict.table.crawledUrls)}:</div>${renderList(evidence.crawledUrls, 10)}`
+                                  : ''
+                              }
+                              ${
+                                evidence.redirectChains?.length
+                                  ? `<div class="small">${escapeHtml(dict.table.redirectChains)}:</div>${renderRedirectChains(r)}`
+                                  : ''
+                              }
+                            </div>
+                            <details class="no-print">
+                              <summary>${escapeHtml(dict.table.technicalJson)}</summary>
+                              <pre class="mono">${escapeHtml(JSON.stringify(technical, null, 2))}</pre>
+                            </details>
+                          </div>
+                        </details>
+                      </div>
+                    </td>
+                  </tr>`;
+}
+
+function summaryCard(label: string, value: number, total: number, note?: string): string {
+  return `
+      <div class="card">
+        <div class="k">${escapeHtml(label)}</div>
+        <div class="v">${value} <span class="muted small">(${escapeHtml(note ?? percent(value, total))})</span></div>
+        <div class="bar"><div style="width: ${percent(value, total)}"></div></div>
+      </div>`;
+}
+
+/**
+ * Renders the report as one HTML page: summary, filters (status, section, minimum severity, text), optional
+ * trend, and per-section tables with collapsible evidence. The print stylesheet turns the page into an audit
+ * document: filters hidden, evidence of the shown rows expanded, audit metadata and a sign-off block added.
+ */
+export function renderHtmlReport(report: ComplianceReport, options: HtmlReportOptions): string {
+  const { meta, summary } = report;
+  const results = report.results || [];
+  const dict = dictionaryFor(options.lang);
+
+  const bySection = new Map<string, CheckResult[]>();
+  for (const r of results) {
+    const key = r.sectionKey || 'other';
+    bySection.set(key, [...(bySection.get(key) || []), r]);
+  }
+
+  const generatedAt = meta.generatedAt || new Date().toISOString();
+  const siteId = meta.siteId || 'unknown';
+  const title = `Compliance report — ${siteId}`;
+  const total = Number(summary.total || 0);
+  const filters = meta.filters;
+  const auditScope = filters
+    ? [
+        `scope=${filters.scope}`,
+        `minSeverity=${filters.minSeverity}`,
+        filters.sectionKeys?.length ? `sections=${filters.sectionKeys.join(',')}` : '',
+        filters.ids?.length ? `ids=${filters.ids.join(',')}` : '',
+        meta.languages?.length ? `languages=${meta.languages.join(',')}` : '',
+      ]
+        .filter(Boolean)
+        .join(' • ')
+    : '';
+
+  const auditRows: Array<[string, string]> = [
+    [dict.audit.site, siteId],
+    [dict.audit.baseUrl, meta.baseUrl || ''],
+    [dict.audit.generatedAt, generatedAt],
+    [
+      dict.audit.checklist,
+      [meta.checklistTitle, meta.checklistVersion].filter(Boolean).join(' — '),
+    ],
+    [dict.audit.scope, auditScope],
+    [dict.audit.source, options.sourceName || ''],
+  ];
+
+  // Use system colors only (no hard-coded palette).
+  return `<!doctype html>
+<html lang="${escapeHtml(options.lang)}">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    :root {
+      color-scheme: light;
+    }
+    html, body {
+      background: Canvas;
+      color: CanvasText;
+      font-family: system-ui, -apple-system, Segoe UI, Roboto, Arial, sans-serif;
+      line-height: 1.4;
+      margin: 0;
+      padding: 0;
+    }
+    .wrap {
+      max-width: 1100px;
+      margin: 0 auto;
+      padding: 24px 16px;
+    }
+    header {
+      display: grid;
+      gap: 8px;
+      margin-bottom: 16px;
+    }
+    h1 {
+      font-size: 22px;
+      margin: 0;
+    }
+    .sub {
+      color: GrayText;
+      font-size: 13px;
+    }
+    .grid {
+      display: grid;
+      grid-template-columns: repeat(4, 1fr);
+      gap: 12px;
+      margin: 16px 0 20px;
+    }
+    @media (max-width: 900px) {
+      .grid { grid-template-columns: repeat(2, 1fr); }
+    }
+    @media (max-width: 520px) {
+      .grid { grid-template-columns: 1fr; }
+    }
+    .card {
+      border: 1px solid GrayText;
+      border-radius: 10px;
+      padding: 12px 12px 10px;
+      background: Canvas;
+    }
+    .card .k {
+      font-size: 12px;
+      color: GrayText;
+      margin-bottom: 6px;
+    }
+    .card .v {
+      font-size: 20px;
+      font-weight: 700;
+    }
+    .bar {
+      height: 8px;
+      border: 1px solid GrayText;
+      border-radius: 999px;
+      overflow: hidden;
+      margin-top: 8px;
+      background: Canvas;
+    }
+    .bar > div {
+      height: 100%;
+      background: CanvasText;
+      opacity: 0.15;
+      width: 0;
+    }
+
+    .controls {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 10px;
+      align-items: center;
+      margin: 16px 0;
+      padding: 12px;
+      border: 1px solid GrayText;
+      border-radius: 10px;
+    }
+    .controls label {
+      display: inline-flex;
+      gap: 8px;
+      align-items: center;
+      font-size: 13px;
+    }
+    .controls select, .controls button {
+      padding: 6px 8px;
+      border-radius: 8px;
+      border: 1px solid GrayText;
+      background: Canvas;
+      color: CanvasText;
+      font-size: 13px;
+    }
+    .controls button { cursor: pointer; }
+    input[type="search"] {
+      flex: 1;
+      min-width: 220px;
+      padding: 8px 10px;
+      border-radius: 8px;
+      border: 1px solid GrayText;
+      background: Canvas;
+      color: CanvasText;
+    }
+
+    section {
+      margin: 18px 0;
+    }
+    section > h2 {
+      font-size: 16px;
+      margin: 0 0 10px;
+    }
+
+    table {
+      width: 100%;
+      border-collapse: collapse;
+      border: 1px solid GrayText;
+      border-radius: 10px;
+      overflow: hidden;
+    }
+    th, td {
+      text-align: left;
+      vertical-align: top;
+      padding: 10px;
+      border-bottom: 1px solid GrayText;
+      font-size: 13px;
+    }
+    th {
+      font-size: 12px;
+      color: GrayText;
+      background: Canvas;
+    }
+    tr:last-child td { border-bottom: 0; }
+
+    .pill {
+      display: inline-flex;
+      align-items: center;
+      gap: 8px;
+      padding: 4px 10px;
+      border: 1px solid GrayText;
+      border-radius: 999px;
+      font-size: 12px;
+      white-space: nowrap;
+    }
+    .status-FAIL { font-weight: 700; border-width: 2px; border-color: CanvasText; }
+    .mono {
+      font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+    }
+    details {
+      margin-top: 6px;
+    }
+    summary {
+      cursor: pointer;
+      color: GrayText;
+      font-size: 12px;
+    }
+    pre {
+      margin: 8px 0 0;
+      padding: 10px;
+      border: 1px solid GrayText;
+      border-radius: 8px;
+      overflow: auto;
+      background: Canvas;
+    }
+    .muted { color: GrayText; }
+    .row { display: grid; gap: 6px; }
+    .small { font-size: 12px; }
+    .trend-lists { grid-template-columns: repeat(3, 1fr); }
+    .timeline span { display: inline-block; width: 1.4em; text-align: center; }
+
+    .evidence {
+      display: grid;
+      gap: 10px;
+      margin-top: 8px;
+    }
+    .shot {
+      margin: 0;
+      border: 1px solid GrayText;
+      border-radius: 10px;
+      overflow: hidden;
+      background: Canvas;
+    }
+    .shot img {
+      display: block;
+      width: 100%;
+      height: auto;
+    }
+    .shot.missing > div { padding: 8px 10px; }
+    .shot figcaption {
+      padding: 8px 10px;
+      color: GrayText;
+      font-size: 12px;
+    }
+    .kv {
+      display: grid;
+      gap: 6px;
+      border: 1px solid GrayText;
+      border-radius: 10px;
+      padding: 10px;
+    }
+    .kv .k { color: GrayText; font-size: 12px; }
+    .element { display: grid; gap: 4px; }
+    .element pre { max-height: 160px; white-space: pre-wrap; overflow-wrap: anywhere; }
+    .kv ul { margin: 0; padding-left: 18px; }
+    .kv li { margin: 2px 0; overflow-wrap: anywhere; }
+
+    .audit-meta th { width: 180px; }
+    .sign-off td { height: 48px; }
+    .print-only { display: none; }
+
+    /* Printable legal-audit layout: what is shown on screen (current filters) is what gets printed. */
+    @page { margin: 15mm 12mm; }
+    @media print {
+      .wrap { max-width: none; padding: 0; }
+      .no-print, .controls { display: none !important; }
+      .print-only { display: block; }
+      .grid { grid-template-columns: repeat(4, 1fr); }
+      section > h2 { break-after: avoid; }
+      tr, .card, .shot { break-inside: avoid; }
+      thead { display: table-header-group; }
+      details > summary { display: none; }
+      .shot img { max-height: 180mm; object-fit: contain; }
+      a { color: CanvasText; text-decoration: none; }
+    }
+  </style>
+</head>
+<body>
+  <div class="wrap">
+    <header>
+      <h1>${escapeHtml(meta.checklistTitle || 'Compliance Report')}</h1>
+      <div class="sub no-print">
+        <span class="mono">siteId=${escapeHtml(siteId)}</span>
+        ${meta.baseUrl ? ` • <span class="mono">baseUrl=${escapeHtml(meta.baseUrl)}</span>` : ''}
+        • <span class="mono">generatedAt=${escapeHtml(generatedAt)}</span>
+        ${options.sourceName ? ` • <span class="mono">source=${escapeHtml(options.sourceName)}</span>` : ''}
+      </div>
+      <div class="print-only">
+        <h2>${escapeHtml(dict.audit.title)}</h2>
+        <table class="audit-meta">
+          <tbody>
+            ${auditRows
+              .filter(([, v]) => v)
+              .map(([k, v]) => `<tr><th>${escapeHtml(k)}</th><td>${escapeHtml(v)}</td></tr>`)
+              .join('')}
+          </tbody>
+        </table>
+      </div>
+    </header>
+
+    <div class="grid" role="region" aria-label="${escapeHtml(dict.summaryRegion)}">
+      ${summaryCard(dict.totalChecks, total, total, '100%')}
+      ${summaryCard(dict.pass, Number(summary.pass || 0), total)}
+      ${summaryCard(dict.fail, Number(summary.fail || 0), total)}
+      ${summaryCard(dict.skippedWarn, Number(summary.skipped || 0) + Number(summary.warn || 0), total)}
+      ${
+        meta.languages && meta.languages.length > 1
+          ? summaryCard(
+              dict.languageMismatches,
+              Number(summary.languageMismatches || 0),
+              total,
+              meta.languages.join(' / ')
+            )
+          : ''
+      }
+    </div>
+
+    <div class="controls" role="region" aria-label="${escapeHtml(dict.filters.region)}">
+      ${STATUS_FILTERS.map(
+        status =>
+          `<label><input type="checkbox" data-status="${status}" checked /> ${status}</label>`
+      ).join('\n      ')}
+      <label>${escapeHtml(dict.filters.section)}
+        <select id="section">
+          <option value="">${escapeHtml(dict.filters.allSections)}</option>
+          ${Array.from(bySection.keys())
+            .map(
+              key =>
+                `<option value="${escapeHtml(key)}">${escapeHtml(key.replace(/_/g, ' '))}</option>`
+            )
+            .join('')}
+        </select>
+      </label>
+      <label>${escapeHtml(dict.filters.severity)}
+        <select id="severity">
+          <option value="">${escapeHtml(dict.filters.allSeverities)}</option>
+          ${SEVERITIES.map(s => `<option value="${s}">${s}</option>`).join('')}
+        </select>
+      </label>
+      <input id="q" type="search" placeholder="${escapeHtml(dict.filters.searchPlaceholder)}" />
+      <span class="small muted">${escapeHtml(dict.filters.shown)}: <span id="shown">${results.length}</span> / ${results.length}</span>
+      <button type="button" id="expand">${escapeHtml(dict.filters.expandAll)}</button>
+      <button type="button" id="collapse">${escapeHtml(dict.filters.collapseAll)}</button>
+      <button type="button" id="print">${escapeHtml(dict.filters.print)}</button>
+    </div>
+
+    ${renderTrendSection(options.trend, dict)}
+
+    ${Array.from(bySection.entries())
+      .map(
+        ([sectionKey, items]) => `
+        <section data-section="${escapeHtml(sectionKey)}">
+          <h2>${escapeHtml(sectionKey.replace(/_/g, ' '))} <span class="muted small">(${items.length})</span></h2>
+          <table>
+            <thead>
+              <tr>
+                <th style="width: 90px">${escapeHtml(dict.table.id)}</th>
+                <th style="width: 140px">${escapeHtml(dict.table.status)}</th>
+                <th>${escapeHtml(dict.table.descReason)}</th>
+                <th style="width: 220px">${escapeHtml(dict.table.whereEvidence)}</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${items.map(r => renderRow(r, dict, options)).join('')}
+            </tbody>
+          </table>
+        </section>`
+      )
+      .join('')}
+
+    <section class="print-only sign-off">
+      <h2>${escapeHtml(dict.audit.signOff)}</h2>
+      <table>
+        <tbody>
+          <tr><th>${escapeHtml(dict.audit.auditor)}</th><td></td></tr>
+          <tr><th>${escapeHtml(dict.audit.date)}</th><td></td></tr>
+          <tr><th>${escapeHtml(dict.audit.signature)}</th><td></td></tr>
+        </tbody>
+      </table>
+    </section>
+
+    <footer class="sub no-print" style="margin: 24px 0 6px;">
+      ${escapeHtml(dict.table.evidenceHint)}
+    </footer>
+  </div>
+
+  <script>
+    (function () {
+      const severityOrder = ${JSON.stringify(SEVERITIES)};
+      const statusChecks = Array.from(document.querySelectorAll('input[type="checkbox"][data-status]'));
+      const q = document.getElementById('q');
+      const section = document.getElementById('section');
+      const severity = document.getElementById('severity');
+      const shown = document.getElementById('shown');
+      const evidence = Array.from(document.querySelectorAll('details.evidence-toggle'));
+
+      function apply() {
+        const allowed = new Set(statusChecks.filter(c => c.checked).map(c => c.getAttribute('data-status')));
+        const allowedSeverities = severity.value ? severityOrder.slice(0, severityOrder.indexOf(severity.value) + 1) : severityOrder;
+        const needle = (q.value || '').trim().toLowerCase();
+        let count = 0;
+
+        for (const block of document.querySelectorAll('section[data-section]')) {
+          const okSection = !section.value || block.getAttribute('data-section') === section.value;
+          let visible = 0;
+          for (const row of block.querySelectorAll('tbody tr[data-status]')) {
+            const hay = row.getAttribute('data-search') || '';
+            const ok = okSection
+              && allowed.has(row.getAttribute('data-status'))
+              && allowedSeverities.includes(row.getAttribute('data-severity'))
+              && (!needle || hay.includes(needle));
+            row.style.display = ok ? '' : 'none';
+            if (ok) visible++;
+          }
+          block.style.display = visible ? '' : 'none';
+          count += visible;
+        }
+        shown.textContent = String(count);
+      }
+
+      // Printing expands the evidence of the rows on screen; the previous state comes back afterwards.
+      let openBeforePrint = null;
+      window.addEventListener('beforeprint', () => {
+        openBeforePrint = evidence.map(d => d.open);
+        evidence.forEach(d => { d.open = true; });
+      });
+      window.addEventListener('afterprint', () => {
+        if (openBeforePrint) evidence.forEach((d, i) => { d.open = openBeforePrint[i]; });
+        openBeforePrint = null;
+      });
+
+      statusChecks.forEach(c => c.addEventListener('change', apply));
+      section.addEventListener('change', apply);
+      severity.addEventListener('change', apply);
+      q.addEventListener('input', apply);
+      document.getElementById('expand').addEventListener('click', () => evidence.forEach(d => { d.open = true; }));
+      document.getElementById('collapse').addEventListener('click', () => evidence.forEach(d => { d.open = false; }));
+      document.getElementById('print').addEventListener('click', () => window.print());
+      apply();
+    })();
+  </script>
+</body>
+</html>`;
+}
+
+/** Writes the rendered report to `outFile`; screenshot paths are resolved against the JSON report's folder. */
+export function writeHtmlReport(
+  report: ComplianceReport,
+  outFile: string,
+  options: Omit<HtmlReportOptions, 'outputDir'>
+): string {
+  const html = renderHtmlReport(report, { ...options, outputDir: path.dirname(outFile) });
+  fs.mkdirSync(path.dirname(outFile), { recursive: true });
+  fs.writeFileSync(outFile, html, 'utf8');
+  return outFile;
+}
@@ -0,0 +1,366 @@
+import type { ComplianceReport, ResultStatus } from '../engine/types';
+
+export const REPORT_LANGUAGES = ['ro', 'ru', 'en'] as const;
+export type ReportLanguage = (typeof REPORT_LANGUAGES)[number];
+
+export type ReportDictionary = {
+  status: Record<ResultStatus | 'UNKNOWN', string>;
+  summaryRegion: string;
+  totalChecks: string;
+  pass: string;
+  fail: string;
+  skippedWarn: string;
+  languageMismatches: string;
+  filters: {
+    region: string;
+    searchPlaceholder: string;
+    section: string;
+    allSections: string;
+    severity: string;
+    allSeverities: string;
+    shown: string;
+    expandAll: string;
+    collapseAll: string;
+    print: string;
+  };
+  audit: {
+    title: string;
+    site: string;
+    baseUrl: string;
+    generatedAt: string;
+    checklist: string;
+    scope: string;
+    source: string;
+    signOff: string;
+    auditor: string;
+    date: string;
+    signature: string;
+  };
+  table: {
+    id: string;
+    status: string;
+    descReason: string;
+    whereEvidence: string;
+    where: string;
+    url: string;
+    reason: string;
+    ruleRisk: string;
+    risk: string;
+    showEvidence: string;
+    screenshots: string;
+    noScreenshots: string;
+    screenshotMissing: string;
+    elements: string;
+    notRendered: string;
+    evidenceSummary: string;
+    selectorsUsed: string;
+    matchedSnippets: string;
+    requestsSample: string;
+    crawledUrls: string;
+    redirectChains: string;
+    technicalJson: string;
+    evidenceHint: string;
+    waiver: string;
+    waiverExpired: string;
+    attestation: string;
+    attestationStale: string;
+    satisfiedBy: string;
+    route: string;
+    languageMismatch: string;
+  };
+  trend: {
+    region: string;
+    runs: string;
+    run: string;
+    passRate: string;
+    delta: string;
+    regressions: string;
+    improvements: string;
+    flaky: string;
+    timeline: string;
+    none: string;
+    legend: string;
+  };
+};
+
+const ro: ReportDictionary = {
+  status: {
+    PASS: 'PASS (OK)',
+    FAIL: 'FAIL (Neconform)',
+    WARN: 'WARN (Necesită verificare)',
+    SKIPPED: 'SKIPPED (Omis)',
+    WAIVED: 'WAIVED (Excepție acceptată)',
+    UNKNOWN: 'UNKNOWN',
+  },
+  summaryRegion: 'Rezumat',
+  totalChecks: 'Total verificări (după filtrele curente)',
+  pass: 'PASS',
+  fail: 'FAIL',
+  skippedWarn: 'SKIPPED / WARN',
+  languageMismatches: 'Diferențe RO/RU (PASS într-o singură limbă)',
+  filters: {
+    region: 'Filtre',
+    searchPlaceholder: 'Căutare după ID/descriere/motiv…',
+    section: 'Secțiune',
+    allSections: 'Toate secțiunile',
+    severity: 'Severitate minimă',
+    allSeverities: 'Toate',
+    shown: 'Afișate',
+    expandAll: 'Deschide toate dovezile',
+    collapseAll: 'Închide toate dovezile',
+    print: 'Tipărește',
+  },
+  audit: {
+    title: 'Raport de audit al conformității',
+    site: 'Site',
+    baseUrl: 'Adresă',
+    generatedAt: 'Data verificării',
+    checklist: 'Checklist',
+    scope: 'Domeniu verificat',
+    source: 'Sursă',
+    signOff: 'Confirmare',
+    auditor: 'Verificat de',
+    date: 'Data',
+    signature: 'Semnătura',
+  },
+  table: {
+    id: 'ID',
+    status: 'Status',
+    descReason: 'Descriere / Motiv',
+    whereEvidence: 'Unde / Dovezi',
+    where: 'Unde',
+    url: 'URL',
+    reason: 'Motiv',
+    ruleRisk: 'Normă',
+    risk: 'Risc',
+    showEvidence: 'Arată dovezile',
+    screenshots: 'Capturi de ecran',
+    noScreenshots: 'Nu există capturi de ecran pentru acest element.',
+    screenshotMissing: 'Fișierul capturii lipsește',
+    elements: 'Elemente verificate',
+    notRendered: 'nu este afișat',
+    evidenceSummary: 'Rezumat dovezi',
+    selectorsUsed: 'Selectori folosiți',
+    matchedSnippets: 'Fragmente găsite',
+    requestsSample: 'Cereri (eșantion)',
+    crawledUrls: 'Pagini inspectate',
+    redirectChains: 'Lanțuri de redirecționare',
+    technicalJson: 'Detalii tehnice (JSON)',
+    evidenceHint: 'Deschide „Arată dovezile” pentru detalii tehnice.',
+    waiver: 'Excepție',
+    waiverExpired: 'Excepție expirată',
+    attestation: 'Verificare manuală',
+    attestationStale: 'Verificare manuală expirată',
+    satisfiedBy: 'Găsit pe',
+    route: 'Rută',
+    languageMismatch: 'Diferență între limbi',
+  },
+  trend: {
+    region: 'Evoluție în timp',
+    runs: 'Rulări',
+    run: 'Rulare',
+    passRate: 'Rată PASS',
+    delta: 'Față de prima rulare din interval',
+    regressions: 'Regresii (PASS → FAIL)',
+    improvements: 'Îmbunătățiri (FAIL → PASS)',
+    flaky: 'Verificări instabile',
+    timeline: 'Istoric pe cerințe',
+    none: 'Nimic de semnalat.',
+    legend: 'P=PASS, F=FAIL, W=WARN, S=SKIPPED, ·=lipsă în rulare',
+  },
+};
+
+const ru: ReportDictionary = {
+  status: {
+    PASS: 'PASS (ОК)',
+    FAIL: 'FAIL (Нарушение)',
+    WARN: 'WARN (Нужна проверка)',
+    SKIPPED: 'SKIPPED (Пропущено)',
+    WAIVED: 'WAIVED (Принятое исключение)',
+    UNKNOWN: 'UNKNOWN',
+  },
+  summaryRegion: 'Сводка',
+  totalChecks: 'Всего проверок (по текущим фильтрам)',
+  pass: 'PASS',
+  fail: 'FAIL',
+  skippedWarn: 'SKIPPED / WARN',
+  languageMismatches: 'Расхождения RO/RU (PASS только на одном языке)',
+  filters: {
+    region: 'Фильтры',
+    searchPlaceholder: 'Поиск по id/описанию/причине…',
+    section: 'Раздел',
+    allSections: 'Все разделы',
+    severity: 'Минимальная критичность',
+    allSeverities: 'Все',
+    shown: 'Показано',
+    expandAll: 'Раскрыть все доказательства',
+    collapseAll: 'Свернуть все доказательства',
+    print: 'Печать',
+  },
+  audit: {
+    title: 'Отчёт аудита соответствия',
+    site: 'Сайт',
+    baseUrl: 'Адрес',
+    generatedAt: 'Дата проверки',
+    checklist: 'Чек-лист',
+    scope: 'Объём проверки',
+    source: 'Источник',
+    signOff: 'Подтверждение',
+    auditor: 'Проверил',
+    date: 'Дата',
+    signature: 'Подпись',
+  },
+  table: {
+    id: 'ID',
+    status: 'Статус',
+    descReason: 'Описание / Причина',
+    whereEvidence: 'Где / Доказательства',
+    where: 'Где',
+    url: 'URL',
+    reason: 'Причина',
+    ruleRisk: 'Норма',
+    risk: 'Риск',
+    showEvidence: 'Показать доказательства',
+    screenshots: 'Скриншоты',
+    noScreenshots: 'Скриншотов для этого пункта нет.',
+    screenshotMissing: 'Файл скриншота не найден',
+    elements: 'Проверенные элементы',
+    notRendered: 'не отображается',
+    evidenceSummary: 'Краткие доказательства',
+    selectorsUsed: 'Использованные селекторы',
+    matchedSnippets: 'Найденные фрагменты',
+    requestsSample: 'Сетевые запросы (пример)',
+    crawledUrls: 'Просмотренные страницы',
+    redirectChains: 'Цепочки перенаправлений',
+    technicalJson: 'Технические детали (JSON)',
+    evidenceHint: 'Для технических деталей открывайте блок “Показать доказательства”.',
+    waiver: 'Исключение',
+    waiverExpired: 'Исключение истекло',
+    attestation: 'Ручная проверка',
+    attestationStale: 'Ручная проверка устарела',
+    satisfiedBy: 'Найдено на',
+    route: 'Маршрут',
+    languageMismatch: 'Расхождение между языками',
+  },
+  trend: {
+    region: 'Динамика',
+    runs: 'Запуски',
+    run: 'Запуск',
+    passRate: 'Доля PASS',
+    delta: 'По сравнению с первым запуском в периоде',
+    regressions: 'Регрессии (PASS → FAIL)',
+    improvements: 'Улучшения (FAIL → PASS)',
+    flaky: 'Нестабильные проверки',
+    timeline: 'История по требованиям',
+    none: 'Нет замечаний.',
+    legend: 'P=PASS, F=FAIL, W=WARN, S=SKIPPED, ·=нет в запуске',
+  },
+};
+
+const en: ReportDictionary = {
+  status: {
+    PASS: 'PASS (OK)',
+    FAIL: 'FAIL (Non-compliant)',
+    WARN: 'WARN (Needs review)',
+    SKIPPED: 'SKIPPED (Not run)',
+    WAIVED: 'WAIVED (Accepted finding)',
+    UNKNOWN: 'UNKNOWN',
+  },
+  summaryRegion: 'Summary',
+  totalChecks: 'Total checks (current filters)',
+  pass: 'PASS',
+  fail: 'FAIL',
+  skippedWarn: 'SKIPPED / WARN',
+  languageMismatches: 'RO/RU mismatches (PASS in one language only)',
+  filters: {
+    region: 'Filters',
+    searchPlaceholder: 'Search by ID/description/reason…',
+    section: 'Section',
+    allSections: 'All sections',
+    severity: 'Minimum severity',
+    allSeverities: 'All',
+    shown: 'Shown',
+    expandAll: 'Expand all evidence',
+    collapseAll: 'Collapse all evidence',
+    print: 'Print',
+  },
+  audit: {
+    title: 'Compliance audit report',
+    site: 'Site',
+    baseUrl: 'Address',
+    generatedAt: 'Checked on',
+    checklist: 'Checklist',
+    scope: 'Audit scope',
+    source: 'Source',
+    signOff: 'Sign-off',
+    auditor: 'Reviewed by',
+    date: 'Date',
+    signature: 'Signature',
+  },
+  table: {
+    id: 'ID',
+    status: 'Status',
+    descReason: 'Description / Reason',
+    whereEvidence: 'Where / Evidence',
+    where: 'Where',
+    url: 'URL',
+    reason: 'Reason',
+    ruleRisk: 'Rule',
+    risk: 'Risk',
+    showEvidence: 'Show evidence',
+    screenshots: 'Screenshots',
+    noScreenshots: 'No screenshots for this item.',
+    screenshotMissing: 'Screenshot file not found',
+    elements: 'Checked elements',
+    notRendered: 'not rendered',
+    evidenceSummary: 'Evidence summary',
+    selectorsUsed: 'Selectors used',
+    matchedSnippets: 'Matched snippets',
+    requestsSample: 'Requests sample',
+    crawledUrls: 'Pages inspected',
+    redirectChains: 'Redirect chains',
+    technicalJson: 'Technical details (JSON)',
+    evidenceHint: 'Open “Show evidence” for technical details.',
+    waiver: 'Waiver',
+    waiverExpired: 'Waiver expired',
+    attestation: 'Manual attestation',
+    attestationStale: 'Manual attestation stale',
+    satisfiedBy: 'Found on',
+    route: 'Route',
+    languageMismatch: 'Language mismatch',
+  },
+  trend: {
+    region: 'Trend over time',
+    runs: 'Runs',
+    run: 'Run',
+    passRate: 'Pass rate',
+    delta: 'Compared with the first run in the window',
+    regressions: 'Regressions (PASS → FAIL)',
+    improvements: 'Improvements (FAIL → PASS)',
+    flaky: 'Flaky checks',
+    timeline: 'Per-requirement timeline',
+    none: 'Nothing to report.',
+    legend: 'P=PASS, F=FAIL, W=WARN, S=SKIPPED, ·=not in run',
+  },
+};
+
+const DICTIONARIES: Record<ReportLanguage, ReportDictionary> = { ro, ru, en };
+
+export function parseReportLanguage(input: string | undefined): ReportLanguage | null {
+  const lang = String(input || '')
+    .trim()
+    .toLowerCase() as ReportLanguage;
+  return REPORT_LANGUAGES.includes(lang) ? lang : null;
+}
+
+/**
+ * Report language: the explicit choice (`--lang` / `REPORT_LANG`) when valid, else the primary language the run
+ * checked (`meta.languages[0]`), else Romanian (the state language the checklist is written in).
+ */
+export function resolveReportLanguage(report: ComplianceReport, explicit?: string): ReportLanguage {
+  return parseReportLanguage(explicit) || parseReportLanguage(report.meta?.languages?.[0]) || 'ro';
+}
+
+export function dictionaryFor(lang: ReportLanguage): ReportDictionary {
+  return DICTIONARIES[lang];
+}
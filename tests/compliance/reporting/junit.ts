@@ -0,0 +1,109 @@
+import type { CheckResult, ComplianceReport } from '../engine/types';
+
+export type JUnitOptions = {
+  /** Report WARN as a failed testcase (same switch as the CI gate's `COMPLIANCE_GATE_WARN_AS_FAIL`). */
+  warnAsFailure?: boolean;
+};
+
+function escapeXml(value: unknown): string {
+  return (
+    String(value ?? '')
+      // Control characters other than tab/newline/carriage return are not allowed in XML 1.0.
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&apos;')
+  );
+}
+
+function evidenceLines(r: CheckResult): string[] {
+  const e = r.evidence || {};
+  return [
+    e.url ? `url: ${e.url}` : '',
+    e.satisfiedByUrl && e.satisfiedByUrl !== e.url ? `satisfied by: ${e.satisfiedByUrl}` : '',
+    ...(r.route?.checked || []).map(c => `route ${c.key}: ${c.status} ${c.reason}`),
+    ...(e.matchedSnippets || []).slice(0, 10).map(s => `snippet: ${s}`),
+    ...(e.selectorsUsed || []).slice(0, 10).map(s => `selector: ${s}`),
+    ...(e.requestsSample || []).slice(0, 5).map(s => `request: ${s}`),
+    ...(e.elements || []).map(
+      el => `element: ${el.locator}${el.screenshot ? ` (${el.screenshot.path})` : ''}`
+    ),
+    ...(e.screenshots || []).map(s => `screenshot: ${s.path}`),
+  ].filter(Boolean);
+}
+
+type Outcome = 'passed' | 'failure' | 'skipped';
+
+function outcomeOf(r: CheckResult, options: JUnitOptions): Outcome {
+  if (r.status === 'FAIL' || (r.status === 'WARN' && options.warnAsFailure)) return 'failure';
+  // Waived findings are accepted, and SKIPPED requirements were not verified: neither passed nor failed.
+  if (r.status === 'SKIPPED' || r.status === 'WAIVED') return 'skipped';
+  return 'passed';
+}
+
+function testcase(report: ComplianceReport, r: CheckResult, options: JUnitOptions): string {
+  const name = `${r.id} ${r.meta?.desc || ''}`.trim();
+  const properties = [
+    ['status', r.status],
+    ['severity', r.severity],
+    ['scope', r.scope],
+    ['automation', r.meta?.automationType],
+    ['law', r.meta?.law],
+    ['risk', r.meta?.risk],
+    ['url', r.evidence?.url],
+    ['route', r.route?.key],
+  ]
+    .filter(([, v]) => v)
+    .map(([k, v]) => `        <property name="${k}" value="${escapeXml(v)}"/>`);
+
+  const body: string[] = [`      <properties>\n${properties.join('\n')}\n      </properties>`];
+  const outcome = outcomeOf(r, options);
+  const details = evidenceLines(r).join('\n');
+  if (outcome === 'failure') {
+    body.push(
+      `      <failure message="${escapeXml(r.reason)}" type="${escapeXml(`${r.status} ${r.severity}`)}">${escapeXml(details)}</failure>`
+    );
+  } else if (outcome === 'skipped') {
+    body.push(`      <skipped message="${escapeXml(`${r.status}: ${r.reason}`)}"/>`);
+  }
+  // Passing testcases (including WARN) keep their reason visible; skipped ones already carry it in the message.
+  if (outcome === 'passed') {
+    body.push(
+      `      <system-out>${escapeXml([`${r.status}: ${r.reason}`, details].filter(Boolean).join('\n'))}</system-out>`
+    );
+  } else if (outcome === 'skipped' && details) {
+    body.push(`      <system-out>${escapeXml(details)}</system-out>`);
+  }
+
+  const classname = `compliance.${report.meta.siteId}.${r.sectionKey}`;
+  return `    <testcase classname="${escapeXml(classname)}" name="${escapeXml(name)}" time="0">\n${body.join('\n')}\n    </testcase>`;
+}
+
+/** One testsuite per checklist section, one testcase per requirement (in report order). */
+export function toJUnitXml(report: ComplianceReport, options: JUnitOptions = {}): string {
+  const sections = new Map<string, CheckResult[]>();
+  for (const r of report.results)
+    sections.set(r.sectionKey, [...(sections.get(r.sectionKey) || []), r]);
+
+  const count = (results: CheckResult[], outcome: Outcome) =>
+    results.filter(r => outcomeOf(r, options) === outcome).length;
+  const suites = Array.from(sections.entries(), ([sectionKey, results]) =>
+    [
+      `  <testsuite name="${escapeXml(sectionKey)}" tests="${results.length}" failures="${count(results, 'failure')}" errors="0" skipped="${count(results, 'skipped')}" time="0" timestamp="${escapeXml(report.meta.generatedAt)}">`,
+      ...results.map(r => testcase(report, r, options)),
+      '  </testsuite>',
+    ].join('\n')
+  );
+
+  const all = report.results;
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="${escapeXml(`compliance ${report.meta.siteId}`)}" tests="${all.length}" failures="${count(all, 'failure')}" errors="0" skipped="${count(all, 'skipped')}" time="0">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+}
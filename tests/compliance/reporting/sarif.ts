@@ -0,0 +1,185 @@
+import path from 'path';
+
+import type { CheckResult, ComplianceReport, Severity } from '../engine/types';
+
+/** The checklist results are anchored to: its path relative to the repository root and, when known, its text. */
+export type SarifOptions = { checklist?: { uri: string; text?: string } };
+
+type SarifLevel = 'error' | 'warning' | 'note' | 'none';
+type SarifKind = 'pass' | 'fail' | 'review' | 'notApplicable';
+
+const LEVEL_BY_SEVERITY: Record<Severity, SarifLevel> = {
+  CRITIC: 'error',
+  RIDICAT: 'error',
+  MEDIU: 'warning',
+  SCAZUT: 'note',
+};
+
+/** A WARN is never reported above `warning`, whatever the requirement's severity. */
+function levelOf(r: CheckResult): SarifLevel {
+  const level = LEVEL_BY_SEVERITY[r.severity] || 'warning';
+  const effective = r.status === 'WAIVED' ? r.waiver?.originalStatus : r.status;
+  return effective === 'WARN' && level === 'error' ? 'warning' : level;
+}
+
+/** SARIF `kind`: findings (including waived ones, which carry a suppression) are `fail`. */
+function kindOf(r: CheckResult): SarifKind {
+  if (r.status === 'PASS') return 'pass';
+  if (r.status === 'SKIPPED')
+    return r.meta?.automationType === 'manual_check' ? 'review' : 'notApplicable';
+  return 'fail';
+}
+
+function evidenceUrls(r: CheckResult): string[] {
+  const e = r.evidence || {};
+  const urls = [
+    e.url,
+    e.satisfiedByUrl,
+    ...(e.crawledUrls || []),
+    ...(r.languages?.results || []).map(l => l.url),
+  ];
+  return [...new Set(urls.filter((u): u is string => !!u))];
+}
+
+/** 1-based line of every `"<id>": {` key in the checklist JSON (sections and requirements alike). */
+function requirementLines(text: string): Map<string, number> {
+  const lines = new Map<string, number>();
+  text.split(/\r?\n/).forEach((line, i) => {
+    const m = line.match(/^\s*"([^"]+)":\s*\{/);
+    if (m && !lines.has(m[1])) lines.set(m[1], i + 1);
+  });
+  return lines;
+}
+
+function rule(r: CheckResult) {
+  return {
+    id: r.id,
+    name: `requirement-${r.id.replace(/[^a-zA-Z0-9]+/g, '-')}`,
+    shortDescription: { text: r.meta?.desc || r.id },
+    fullDescription: {
+      text: [r.meta?.desc, r.whereToVerify && `Where to verify: ${r.whereToVerify}`]
+        .filter(Boolean)
+        .join('. '),
+    },
+    defaultConfiguration: { level: LEVEL_BY_SEVERITY[r.severity] || 'warning' },
+    properties: {
+      sectionKey: r.sectionKey,
+      severity: r.severity,
+      scope: r.scope,
+      law: r.meta?.law,
+      risk: r.meta?.risk,
+      automationType: r.meta?.automationType,
+      tags: ['compliance', r.scope.toLowerCase(), r.sectionKey],
+    },
+  };
+}
+
+/**
+ * Code-scanning tools only display results anchored to a file in the checkout, so the physical location is the
+ * requirement's line in the checklist JSON. The checked page is a web URL, not a file: it stays a logical location
+ * (`kind: resource`) and the `pageUrl` property.
+ */
+function result(
+  report: ComplianceReport,
+  r: CheckResult,
+  ruleIndex: number,
+  checklistUri: string | undefined,
+  lines: Map<string, number>
+) {
+  const kind = kindOf(r);
+  const urls = evidenceUrls(r);
+  const pageUrl = urls[0] || report.meta.baseUrl;
+  return {
+    ruleId: r.id,
+    ruleIndex,
+    kind,
+    // The spec only allows a level other than `none` on failures.
+    level: kind === 'fail' ? levelOf(r) : 'none',
+    message: { text: `${r.status}: ${r.reason}` },
+    locations: [
+      {
+        ...(checklistUri
+          ? {
+              physicalLocation: {
+                artifactLocation: { uri: checklistUri },
+                region: { startLine: lines.get(r.id) || 1 },
+              },
+            }
+          : {}),
+        logicalLocations: [{ name: r.id, fullyQualifiedName: pageUrl, kind: 'resource' }],
+        message: { text: r.whereToVerify || pageUrl },
+      },
+    ],
+    partialFingerprints: { complianceRequirement: `${report.meta.siteId}/${r.id}` },
+    ...(r.waiver && !r.waiver.expired
+      ? {
+          suppressions: [
+            {
+              kind: 'external',
+              status: 'accepted',
+              justification: `${r.waiver.justification} (owner ${r.waiver.owner}, until ${r.waiver.expires})`,
+            },
+          ],
+        }
+      : {}),
+    properties: {
+      status: r.status,
+      severity: r.severity,
+      law: r.meta?.law,
+      pageUrl,
+      evidenceUrls: urls,
+      ...(r.evidence?.matchedSnippets?.length
+        ? { matchedSnippets: r.evidence.matchedSnippets.slice(0, 10) }
+        : {}),
+      ...(r.evidence?.screenshots?.length
+        ? { screenshots: r.evidence.screenshots.map(s => s.path) }
+        : {}),
+      ...(r.evidence?.elements?.length
+        ? {
+            elements: r.evidence.elements.map(el => ({
+              locator: el.locator,
+              boundingBox: el.boundingBox,
+              screenshot: el.screenshot?.path,
+            })),
+          }
+        : {}),
+      ...(r.route
+        ? { route: r.route.key, routesChecked: r.route.checked.map(c => `${c.key}=${c.status}`) }
+        : {}),
+      ...(r.attestation ? { attestation: r.attestation } : {}),
+    },
+  };
+}
+
+/** SARIF 2.1.0 log with one rule and one result per requirement in the report. */
+export function toSarif(report: ComplianceReport, options: SarifOptions = {}): object {
+  const rules = report.results.map(rule);
+  const file = options.checklist?.uri || report.meta.checklistFile;
+  const checklistUri = file?.split(path.sep).join('/');
+  const lines = requirementLines(options.checklist?.text || '');
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'moldova-ecommerce-compliance-kit',
+            ...(report.meta.checklistVersion ? { version: report.meta.checklistVersion } : {}),
+            rules,
+          },
+        },
+        automationDetails: { id: `compliance/${report.meta.siteId}/${report.meta.generatedAt}` },
+        invocations: [{ executionSuccessful: true, endTimeUtc: report.meta.generatedAt }],
+        properties: {
+          siteId: report.meta.siteId,
+          baseUrl: report.meta.baseUrl,
+          checklistTitle: report.meta.checklistTitle,
+          filters: report.meta.filters,
+          summary: report.summary,
+        },
+        results: report.results.map((r, i) => result(report, r, i, checklistUri, lines)),
+      },
+    ],
+  };
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+
+import type { ComplianceReport, ResultStatus } from '../engine/types';
+
+const REPORT_FILE_RE = /^compliance-report\..*\.json$/i;
+
+/** Statuses that represent an actual verdict (SKIPPED and unknown values do not break a streak). */
+const VERDICT_STATUSES = new Set<ResultStatus>(['PASS', 'FAIL', 'WARN']);
+
+export type ReportEntry = {
+  name: string;
+  fullPath: string;
+  report: ComplianceReport;
+};
+
+/** A report file that could not be read or parsed; callers decide how to surface it. */
+export type SkippedReport = {
+  name: string;
+  error: string;
+};
+
+export type LoadedReports = {
+  entries: ReportEntry[];
+  skipped: SkippedReport[];
+};
+
+export type TrendRun = {
+  name: string;
+  generatedAt: string;
+  checklistVersion: string;
+  summary: Partial<ComplianceReport['summary']>;
+};
+
+export type TrendRequirement = {
+  id: string;
+  sectionKey: string;
+  desc: string;
+  /** One status per run in the window (oldest first); `null` when the requirement was not in that run. */
+  statuses: Array<ResultStatus | null>;
+  changes: number;
+  regression: boolean;
+  improvement: boolean;
+  flaky: boolean;
+};
+
+export type Trend = {
+  runs: TrendRun[];
+  requirements: TrendRequirement[];
+  regressions: TrendRequirement[];
+  improvements: TrendRequirement[];
+  flaky: TrendRequirement[];
+  delta: { from: string; to: string; pass: number; fail: number } | null;
+};
+
+export type TrendOptions = {
+  /** Number of most recent runs kept (default 20). */
+  limit?: number;
+  /** Verdict changes within the window that make a requirement flaky (default 2). */
+  flakyThreshold?: number;
+};
+
+/** Every readable JSON report of `siteId` in `reportsDir`, oldest first, plus the files that could not be read. */
+export function loadReports(reportsDir: string, siteId?: string): LoadedReports {
+  if (!fs.existsSync(reportsDir)) return { entries: [], skipped: [] };
+
+  const out: ReportEntry[] = [];
+  const skipped: SkippedReport[] = [];
+  for (const name of fs.readdirSync(reportsDir)) {
+    if (!REPORT_FILE_RE.test(name)) continue;
+    const fullPath = path.join(reportsDir, name);
+    let report: ComplianceReport;
+    try {
+      report = JSON.parse(fs.readFileSync(fullPath, 'utf8')) as ComplianceReport;
+    } catch (err) {
+      skipped.push({ name, error: err instanceof Error ? err.message : String(err) });
+      continue;
+    }
+    if (siteId && String(report?.meta?.siteId || '').toLowerCase() !== siteId.toLowerCase())
+      continue;
+    out.push({ name, fullPath, report });
+  }
+
+  out.sort((a, b) =>
+    String(a.report?.meta?.generatedAt || a.name).localeCompare(
+      String(b.report?.meta?.generatedAt || b.name)
+    )
+  );
+  return { entries: out, skipped };
+}
+
+/**
+ * Builds a per-requirement status history across runs (oldest first).
+ *
+ * - regression: the latest run reports FAIL and the requirement passed in an earlier run of the window
+ *   (PASS → FAIL, PASS → FAIL → FAIL, PASS → SKIPPED → FAIL)
+ * - improvement: the latest run reports PASS and the requirement failed since its previous PASS
+ * - flaky: the verdict changed at least `flakyThreshold` times within the window
+ */
+export function buildTrend(entries: ReportEntry[], options: TrendOptions = {}): Trend {
+  const limit = Number(options.limit || 20);
+  const flakyThreshold = Number(options.flakyThreshold || 2);
+  const window = entries.slice(-limit);
+
+  const runs: TrendRun[] = window.map(e => ({
+    name: e.name,
+    generatedAt: e.report?.meta?.generatedAt || '',
+    checklistVersion: e.report?.meta?.checklistVersion || '',
+    summary: e.report?.summary || {},
+  }));
+
+  const byId = new Map<string, Pick<TrendRequirement, 'id' | 'sectionKey' | 'desc' | 'statuses'>>();
+  window.forEach((e, runIndex) => {
+    const results = Array.isArray(e.report?.results) ? e.report.results : [];
+    for (const r of results) {
+      if (!r?.id) continue;
+      let item = byId.get(r.id);
+      if (!item) {
+        item = {
+          id: r.id,
+          sectionKey: r.sectionKey,
+          desc: r.meta?.desc || '',
+          statuses: new Array<ResultStatus | null>(window.length).fill(null),
+        };
+        byId.set(r.id, item);
+      }
+      item.statuses[runIndex] = r.status;
+    }
+  });
+
+  const requirements: TrendRequirement[] = Array.from(byId.values()).map(item => {
+    const verdicts = item.statuses.filter((s): s is ResultStatus => !!s && VERDICT_STATUSES.has(s));
+    let changes = 0;
+    for (let i = 1; i < verdicts.length; i++) {
+      if (verdicts[i] !== verdicts[i - 1]) changes++;
+    }
+    // The latest run the requirement appears in; a SKIPPED there is neither a regression nor an improvement.
+    const latest = item.statuses.filter(s => s !== null).pop();
+    const earlier = latest && VERDICT_STATUSES.has(latest) ? verdicts.slice(0, -1) : [];
+    const sincePass = earlier.slice(earlier.lastIndexOf('PASS') + 1);
+    return {
+      ...item,
+      changes,
+      regression: latest === 'FAIL' && earlier.includes('PASS'),
+      improvement: latest === 'PASS' && sincePass.includes('FAIL'),
+      flaky: changes >= flakyThreshold,
+    };
+  });
+
+  const first = runs[0];
+  const latest = runs[runs.length - 1];
+  return {
+    runs,
+    requirements,
+    regressions: requirements.filter(r => r.regression),
+    improvements: requirements.filter(r => r.improvement),
+    flaky: requirements.filter(r => r.flaky),
+    delta:
+      first && latest && runs.length > 1
+        ? {
+            from: first.generatedAt,
+            to: latest.generatedAt,
+            pass: Number(latest.summary.pass || 0) - Number(first.summary.pass || 0),
+            fail: Number(latest.summary.fail || 0) - Number(first.summary.fail || 0),
+          }
+        : null,
+  };
+}
@@ -0,0 +1,265 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import { ROUTE_KEYS, type RouteKey, type SiteProfile } from './siteProfile';
+import { parseVendorDefinitions } from '../engine/vendors';
+
+const PROFILE_FILE_RE = /\.profile\.(json|ya?ml)$/i;
+
+const I18N_KEYS = [
+  'cookieAccept',
+  'cookieReject',
+  'cookieManage',
+  'termsCheckboxLabels',
+  'finalizeOrderButtonLabels',
+] as const;
+
+const SELECTOR_LIST_KEYS = [
+  'cookieBannerRoot',
+  'checkoutTermsCheckbox',
+  'checkoutFinalizeButton',
+  'currencyTextRoot',
+  'currencyReadySelector',
+  'productLink',
+  'addToCartButton',
+] as const;
+
+export class SiteProfileError extends Error {
+  constructor(
+    message: string,
+    public source: string,
+    public problems: string[] = []
+  ) {
+    super(problems.length ? `${message}\n${problems.map(p => `  - ${p}`).join('\n')}` : message);
+    this.name = 'SiteProfileError';
+  }
+}
+
+export type LoadedSiteProfile = {
+  profile: SiteProfile;
+  source: string;
+};
+
+export function resolveProfilesDir(): string {
+  const fromEnv = String(process.env.COMPLIANCE_PROFILES_DIR || '').trim();
+  return fromEnv ? path.resolve(fromEnv) : path.join(__dirname, 'profiles');
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(v => typeof v === 'string' && v.trim().length > 0);
+}
+
+function isRouteKey(value: unknown): value is RouteKey {
+  return typeof value === 'string' && (ROUTE_KEYS as readonly string[]).includes(value);
+}
+
+/**
+ * Validates a raw (parsed JSON/YAML) object against the SiteProfile shape.
+ * Collects every problem instead of stopping at the first one, so a new profile can be fixed in one pass.
+ */
+export function validateSiteProfile(raw: unknown, source: string): SiteProfile {
+  const problems: string[] = [];
+
+  if (!isPlainObject(raw)) {
+    throw new SiteProfileError('site profile must be an object', source);
+  }
+
+  if (typeof raw.id !== 'string' || !/^[a-z0-9_-]+$/.test(raw.id)) {
+    problems.push('id: required, lowercase letters/digits/"-"/"_" only');
+  }
+
+  if (typeof raw.baseUrl !== 'string' || !/^https?:\/\/[^/]+/i.test(raw.baseUrl)) {
+    problems.push('baseUrl: required absolute http(s) URL');
+  }
+
+  if (raw.routes === undefined || raw.routes === null) {
+    problems.push(`routes: required (known keys: ${ROUTE_KEYS.join(', ')})`);
+  } else if (!isPlainObject(raw.routes)) {
+    problems.push('routes: must be a mapping of route key to path');
+  } else {
+    for (const [key, value] of Object.entries(raw.routes)) {
+      if (!isRouteKey(key))
+        problems.push(`routes.${key}: unknown route key (known: ${ROUTE_KEYS.join(', ')})`);
+      if (typeof value !== 'string' || !value.trim())
+        problems.push(`routes.${key}: must be a non-empty path or URL`);
+    }
+    if (!raw.routes.home) problems.push('routes.home: required');
+  }
+
+  if (!isPlainObject(raw.applicability)) {
+    problems.push('applicability: required');
+  } else {
+    if (typeof raw.applicability.hasCheckout !== 'boolean')
+      problems.push('applicability.hasCheckout: required boolean');
+    for (const key of ['redirectsToPartners', 'requiresLoginForCheckout']) {
+      const value = raw.applicability[key];
+      if (value !== undefined && typeof value !== 'boolean')
+        problems.push(`applicability.${key}: must be boolean`);
+    }
+  }
+
+  if (!isPlainObject(raw.i18n)) {
+    problems.push(`i18n: required (${I18N_KEYS.join(', ')})`);
+  } else {
+    for (const key of I18N_KEYS) {
+      if (!isStringList(raw.i18n[key]))
+        problems.push(`i18n.${key}: required list of non-empty strings`);
+    }
+    if (raw.i18n.addToCartLabels !== undefined && !isStringList(raw.i18n.addToCartLabels)) {
+      problems.push('i18n.addToCartLabels: must be a list of non-empty strings');
+    }
+  }
+
+  if (!isPlainObject(raw.selectors)) {
+    problems.push('selectors: required');
+  } else {
+    for (const key of SELECTOR_LIST_KEYS) {
+      const value = raw.selectors[key];
+      if (value !== undefined && !isStringList(value))
+        problems.push(`selectors.${key}: must be a list of selectors`);
+    }
+    const anchors = raw.selectors.linkAllAnchors;
+    if (anchors !== undefined && (typeof anchors !== 'string' || !anchors.trim())) {
+      problems.push('selectors.linkAllAnchors: must be a selector string');
+    }
+  }
+
+  if (raw.elementVisibilityById !== undefined && raw.elementVisibilityById !== null) {
+    if (!isPlainObject(raw.elementVisibilityById)) {
+      problems.push(
+        'elementVisibilityById: must be a mapping of requirement id to { route?, selectors }'
+      );
+    } else {
+      for (const [id, mapping] of Object.entries(raw.elementVisibilityById)) {
+        if (!isPlainObject(mapping)) {
+          problems.push(`elementVisibilityById.${id}: must be an object`);
+          continue;
+        }
+        if (!isStringList(mapping.selectors) || mapping.selectors.length === 0) {
+          problems.push(
+            `elementVisibilityById.${id}.selectors: required non-empty list of selectors`
+          );
+        }
+        if (mapping.route !== undefined && !isRouteKey(mapping.route)) {
+          problems.push(
+            `elementVisibilityById.${id}.route: unknown route key "${String(mapping.route)}"`
+          );
+        }
+      }
+    }
+  }
+
+  if (raw.routesById !== undefined && raw.routesById !== null) {
+    if (!isPlainObject(raw.routesById)) {
+      problems.push('routesById: must be a mapping of requirement id to { routes, mode? }');
+    } else {
+      for (const [id, mapping] of Object.entries(raw.routesById)) {
+        if (
+          !isPlainObject(mapping) ||
+          !Array.isArray(mapping.routes) ||
+          mapping.routes.length === 0
+        ) {
+          problems.push(`routesById.${id}.routes: required non-empty list of route keys`);
+          continue;
+        }
+        for (const route of mapping.routes) {
+          if (!isRouteKey(route))
+            problems.push(`routesById.${id}.routes: unknown route key "${String(route)}"`);
+        }
+        if (mapping.mode !== undefined && mapping.mode !== 'any' && mapping.mode !== 'all') {
+          problems.push(`routesById.${id}.mode: must be "any" or "all"`);
+        }
+      }
+    }
+  }
+
+  if (raw.vendors !== undefined && raw.vendors !== null) {
+    if (!Array.isArray(raw.vendors)) {
+      problems.push('vendors: must be a list of vendor catalog entries');
+    } else {
+      problems.push(...parseVendorDefinitions(raw.vendors, 'vendors').problems);
+    }
+  }
+
+  if (problems.length) {
+    throw new SiteProfileError(`invalid site profile in ${source}`, source, problems);
+  }
+
+  return {
+    ...raw,
+    elementVisibilityById:
+      (raw.elementVisibilityById as SiteProfile['elementVisibilityById']) || {},
+    routesById: (raw.routesById as SiteProfile['routesById']) || {},
+  } as SiteProfile;
+}
+
+export function parseProfileFile(filePath: string): unknown {
+  const text = fs.readFileSync(filePath, 'utf-8');
+  try {
+    return /\.json$/i.test(filePath) ? JSON.parse(text) : YAML.parse(text);
+  } catch (e) {
+    throw new SiteProfileError(
+      `cannot parse site profile ${filePath} (${e instanceof Error ? e.message : 'unknown error'})`,
+      filePath
+    );
+  }
+}
+
+/**
+ * Discovers every `<site>.profile.(json|yaml|yml)` file in the profiles directory and validates it.
+ * Duplicate ids are an error: silently picking one of them would audit the wrong shop.
+ */
+export function loadSiteProfiles(dir: string = resolveProfilesDir()): LoadedSiteProfile[] {
+  if (!fs.existsSync(dir)) {
+    throw new SiteProfileError(`site profiles directory not found: ${dir}`, dir);
+  }
+
+  const files = fs
+    .readdirSync(dir)
+    .filter(f => PROFILE_FILE_RE.test(f))
+    .sort();
+
+  const loaded: LoadedSiteProfile[] = [];
+  const seen = new Map<string, string>();
+  for (const file of files) {
+    const source = path.join(dir, file);
+    const profile = validateSiteProfile(parseProfileFile(source), source);
+
+    const previous = seen.get(profile.id);
+    if (previous) {
+      throw new SiteProfileError(`duplicate site profile id "${profile.id}"`, source, [
+        previous,
+        source,
+      ]);
+    }
+    seen.set(profile.id, source);
+    loaded.push({ profile, source });
+  }
+
+  return loaded;
+}
+
+/**
+ * Returns the profile whose `id` matches `siteId`.
+ * Unknown ids fail loudly: falling back to another shop would produce a report for the wrong site.
+ */
+export function getSiteProfile(siteId: string, dir: string = resolveProfilesDir()): SiteProfile {
+  const normalized = String(siteId || '')
+    .toLowerCase()
+    .trim();
+  const loaded = loadSiteProfiles(dir);
+  const match = loaded.find(p => p.profile.id === normalized);
+  if (!match) {
+    const known = loaded.map(p => p.profile.id);
+    throw new SiteProfileError(
+      `unknown site id "${normalized}" (available: ${known.length ? known.join(', ') : 'none'})`,
+      dir
+    );
+  }
+  return match.profile;
+}
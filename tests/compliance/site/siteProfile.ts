@@ -1,14 +1,19 @@
-export type RouteKey =
-  | 'home'
-  | 'contact'
-  | 'privacy'
-  | 'cookies'
-  | 'terms'
-  | 'returns'
-  | 'listing'
-  | 'product'
-  | 'cart'
-  | 'checkout';
+import type { VendorDefinition } from '../engine/vendors';
+
+export const ROUTE_KEYS = [
+  'home',
+  'contact',
+  'privacy',
+  'cookies',
+  'terms',
+  'returns',
+  'listing',
+  'product',
+  'cart',
+  'checkout',
+] as const;
+
+export type RouteKey = (typeof ROUTE_KEYS)[number];
 
 export type SiteProfile = {
   id: string;
@@ -27,6 +32,8 @@ export type SiteProfile = {
     cookieManage: string[];
     termsCheckboxLabels: string[];
     finalizeOrderButtonLabels: string[];
+    /** Optional: add-to-cart button texts, used by keyboard_navigation on the product page. */
+    addToCartLabels?: string[];
   };
 
   selectors: {
@@ -40,19 +47,23 @@ export type SiteProfile = {
 
     /** Optional selector(s) that indicate the product list/prices have rendered. */
     currencyReadySelector?: string[];
+
+    /** Optional CSS selectors (matched with `Element.matches`) for product links and add-to-cart buttons. */
+    productLink?: string[];
+    addToCartButton?: string[];
   };
 
   elementVisibilityById?: Record<string, { route?: RouteKey; selectors: string[] }>;
-};
 
-export type SiteProfileId = 'smart';
-
-export function getSiteProfile(siteId: string): SiteProfile {
-  const normalized = String(siteId || '').toLowerCase().trim() as SiteProfileId;
-  switch (normalized) {
-    case 'smart':
-      return require('./profiles/smart.profile').smartProfile;
-    default:
-      return require('./profiles/smart.profile').smartProfile;
-  }
-}
+  /**
+   * Per-requirement route override (any automation type); wins over `automation.routes` in the checklist
+   * and over inferred routes. `mode: all` requires every route to satisfy the requirement (default: any).
+   */
+  routesById?: Record<string, { routes: RouteKey[]; mode?: 'any' | 'all' }>;
+
+  /**
+   * Site-specific additions to the vendor catalog (tests/compliance/vendors/vendors.yaml), same entry shape.
+   * An entry with the name of a catalog vendor replaces it.
+   */
+  vendors?: VendorDefinition[];
+};
@@ -0,0 +1,110 @@
+/**
+ * Attestation file loading and how manual verdicts fill SKIPPED results, including stale attestations.
+ */
+
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import {
+  applyAttestations,
+  attestationExpiry,
+  AttestationFileError,
+  loadAttestations,
+} from '../engine/attestations';
+import { fixtureResult } from './fixtures/reports';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+test.describe('loadAttestations', () => {
+  test('normalizes status, site id and evidence, and defaults the validity to a year', () => {
+    const [first] = loadAttestations(path.join(FIXTURES, 'attestations.yaml'));
+    expect(first).toEqual({
+      id: '7.1',
+      siteId: 'fixture',
+      status: 'PASS',
+      note: 'Complaint register shown at the shop counter.',
+      auditor: 'auditor@example.md',
+      date: '2026-03-02',
+      evidence: ['evidence/7.1-register.jpg'],
+      validForDays: 365,
+    });
+  });
+
+  test('a missing file means nothing attested', () => {
+    expect(loadAttestations(path.join(FIXTURES, 'no-such-attestations.yaml'))).toEqual([]);
+  });
+
+  test('lists every invalid entry', () => {
+    let error: unknown;
+    try {
+      loadAttestations(path.join(FIXTURES, 'attestations.invalid.yaml'));
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(AttestationFileError);
+    expect((error as AttestationFileError).problems).toEqual([
+      'attestations[0] (7.1): status must be one of PASS, FAIL (got "WARN")',
+      'attestations[1] (7.2): invalid date "02.03.2026" (expected YYYY-MM-DD)',
+      'attestations[2] (7.3): validForDays must be a positive integer',
+      'attestations[3]: missing note',
+    ]);
+  });
+});
+
+test.describe('attestationExpiry', () => {
+  test('counts through the end of the last valid day (UTC)', () => {
+    expect(attestationExpiry({ date: '2026-09-15', validForDays: 30 }).toISOString()).toBe(
+      '2026-10-15T23:59:59.999Z'
+    );
+  });
+});
+
+test.describe('applyAttestations', () => {
+  const attestations = loadAttestations(path.join(FIXTURES, 'attestations.yaml'));
+
+  test('a fresh attestation decides a SKIPPED result', () => {
+    const [result] = applyAttestations(
+      [fixtureResult('7.1', 'SKIPPED')],
+      attestations,
+      'fixture',
+      NOW
+    );
+    expect(result.status).toBe('PASS');
+    expect(result.reason).toBe(
+      'manual attestation by auditor@example.md on 2026-03-02: Complaint register shown at the shop counter.'
+    );
+    expect(result.attestation).toMatchObject({
+      expires: '2027-03-02',
+      originalStatus: 'SKIPPED',
+      stale: false,
+    });
+  });
+
+  test('a stale attestation keeps the result SKIPPED and says when it expired', () => {
+    const [result] = applyAttestations(
+      [fixtureResult('7.2', 'SKIPPED')],
+      attestations,
+      'fixture',
+      NOW
+    );
+    expect(result.status).toBe('SKIPPED');
+    expect(result.reason).toContain('expired on 2026-09-01');
+    expect(result.attestation?.stale).toBe(true);
+  });
+
+  test('the most recent re-audit wins, with its own validity', () => {
+    const results = [fixtureResult('7.3', 'SKIPPED')];
+    const fresh = applyAttestations(results, attestations, 'fixture', new Date('2026-10-01'));
+    expect(fresh[0].status).toBe('FAIL');
+    expect(fresh[0].attestation?.auditor).toBe('dpo@example.md');
+
+    const stale = applyAttestations(results, attestations, 'fixture', NOW);
+    expect(stale[0].status).toBe('SKIPPED');
+    expect(stale[0].attestation).toMatchObject({ status: 'FAIL', stale: true });
+  });
+
+  test('automated verdicts and other sites are left untouched', () => {
+    const results = [fixtureResult('7.1', 'FAIL'), fixtureResult('7.4', 'SKIPPED')];
+    expect(applyAttestations(results, attestations, 'fixture', NOW)).toEqual(results);
+  });
+});
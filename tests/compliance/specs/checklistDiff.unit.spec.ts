@@ -0,0 +1,89 @@
+/**
+ * Checklist diff between two fixture versions: added, removed, moved and modified requirements.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { diffChecklists, formatChecklistDiff, type SectionDiff } from '../engine/checklistDiff';
+import type { AuditChecklist } from '../engine/types';
+
+function loadChecklist(name: string): AuditChecklist {
+  return JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'fixtures', name), 'utf8')
+  ) as AuditChecklist;
+}
+
+test.describe('diffChecklists', () => {
+  const diff = diffChecklists(
+    loadChecklist('checklist-base.json'),
+    loadChecklist('checklist-head.json')
+  );
+  const section = (key: string): SectionDiff => diff.sections.find(s => s.sectionKey === key)!;
+
+  test('counts every kind of change', () => {
+    expect(diff.totals).toEqual({ added: 1, removed: 1, modified: 3, unchanged: 1 });
+    expect(diff.base.version).toBe('1.0');
+    expect(diff.head.version).toBe('1.1');
+  });
+
+  test('lists head sections first, then sections only in the base', () => {
+    expect(diff.sections.map(s => s.sectionKey)).toEqual(['1_info', '3_returns', '2_pay']);
+  });
+
+  test('whitespace, severity case and automation key order are not changes', () => {
+    const ids = diff.sections.flatMap(s => s.modified.map(c => c.id));
+    expect(ids).not.toContain('1.1');
+    const phone = section('1_info').modified.find(c => c.id === '1.3')!;
+    expect(phone.changes.map(c => c.field)).toEqual(['automation']);
+  });
+
+  test('a new requirement needs automation review', () => {
+    expect(section('1_info').added).toMatchObject([
+      {
+        id: '1.4',
+        automationType: { after: 'keyword_search' },
+        needsAutomationReview: true,
+        resultsComparable: false,
+      },
+    ]);
+  });
+
+  test('a removed requirement is reported under its base section', () => {
+    expect(section('2_pay').removed).toMatchObject([
+      { id: '2.1', automationType: { before: 'manual_check' } },
+    ]);
+  });
+
+  test('a changed automation block breaks comparability', () => {
+    expect(section('1_info').modified.find(c => c.id === '1.3')).toMatchObject({
+      automationType: { before: 'keyword_search', after: 'regex_search' },
+      needsAutomationReview: true,
+      resultsComparable: false,
+    });
+  });
+
+  test('a law reference or a move to another section keeps results comparable', () => {
+    expect(section('1_info').modified.find(c => c.id === '1.2')).toMatchObject({
+      changes: [{ field: 'law' }],
+      needsAutomationReview: false,
+      resultsComparable: true,
+    });
+    expect(section('3_returns').modified).toMatchObject([
+      {
+        id: '2.2',
+        changes: [{ field: 'section', before: '2_pay', after: '3_returns' }],
+        resultsComparable: true,
+      },
+    ]);
+  });
+
+  test('the text summary flags what needs review', () => {
+    const text = formatChecklistDiff(diff);
+    expect(text).toContain('Checklist diff: 1.0 (2026-01-10) -> 1.1 (2026-02-01)');
+    expect(text).toContain('+1 added, -1 removed, ~3 modified, 1 unchanged');
+    expect(text).toContain(
+      '~ 1.3 Telefon de contact  (needs automation review, past results not comparable)'
+    );
+  });
+});
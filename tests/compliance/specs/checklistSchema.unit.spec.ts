@@ -0,0 +1,107 @@
+/**
+ * Checklist validation against a fixture with one broken rule per field kind: every problem is reported, keyed by
+ * requirement id.
+ */
+
+import path from 'path';
+
+import { test, expect } from '@playwright/test';
+import { readChecklist, resolveAuditPath } from '../engine/checklist';
+import {
+  ChecklistValidationError,
+  formatChecklistIssue,
+  validateChecklist,
+} from '../engine/checklistSchema';
+
+const BROKEN = readChecklist(path.join(__dirname, 'fixtures', 'checklist-invalid.json'));
+
+test.describe('validateChecklist', () => {
+  test('reports each broken requirement with its id and field', () => {
+    const issues = validateChecklist(BROKEN).filter(i => i.level === 'error');
+    expect(issues.map(i => [i.id, i.sectionKey, i.field])).toEqual([
+      ['1.2', '1_info', 'severity'],
+      ['1.2', '1_info', 'automation.keywords'],
+      ['1.3', '1_info', 'automation.pattern'],
+      ['1.4', '1_info', 'scope'],
+      ['1.4', '1_info', 'automation.target_url'],
+      ['1.4', '1_info', 'automation.timeout_ms'],
+      ['1.4', '1_info', 'automation.max_redirects'],
+      ['2.1', '2_checkout', 'automation.expected_state'],
+      ['2.2', '2_checkout', 'automation.rules'],
+      ['2.3', '2_checkout', 'automation.mixed_content'],
+      ['2.4', '2_checkout', 'automation.type'],
+      ['2.5', '2_checkout', 'desc'],
+      ['2.5', '2_checkout', 'automation'],
+      ['2.6', '2_checkout', 'where_to_verify'],
+      ['2.6', '2_checkout', 'automation.routes'],
+      ['2.6', '2_checkout', 'automation.routes_mode'],
+      ['1.1', '2_checkout', 'id'],
+    ]);
+  });
+
+  test('messages name the automation type and the expected shape', () => {
+    const messages = new Map(validateChecklist(BROKEN).map(i => [`${i.id} ${i.field}`, i.message]));
+    expect(messages.get('1.2 automation.keywords')).toBe(
+      'keyword_search automation.keywords must be a non-empty list of strings'
+    );
+    expect(messages.get('1.3 automation.pattern')).toMatch(
+      /^regex_search automation\.pattern is not a valid regex \(/
+    );
+    expect(messages.get('1.4 automation.target_url')).toBe(
+      'link_presence requires automation.target_url'
+    );
+    expect(messages.get('1.4 automation.timeout_ms')).toBe(
+      'link_presence automation.timeout_ms must be a positive number'
+    );
+    expect(messages.get('1.4 automation.max_redirects')).toBe(
+      'link_presence automation.max_redirects must be a non-negative integer'
+    );
+    expect(messages.get('2.1 automation.expected_state')).toBe(
+      'checkbox_state automation.expected_state must be one of checked|unchecked (got "on")'
+    );
+    expect(messages.get('2.2 automation.rules')).toContain('has unknown value(s) "sound"');
+    expect(messages.get('2.3 automation.mixed_content')).toBe(
+      'ssl_check automation.mixed_content must be true or false'
+    );
+    expect(messages.get('2.4 automation.type')).toMatch(/^unknown automation\.type "screenshot"/);
+    expect(messages.get('2.6 automation.routes_mode')).toBe(
+      'keyword_search automation.routes_mode must be one of any|all (got "some")'
+    );
+    expect(messages.get('1.1 id')).toBe('duplicate id (also in 1_info)');
+  });
+
+  test('empty sections and wrong totals are warnings', () => {
+    const warnings = validateChecklist(BROKEN)
+      .filter(i => i.level === 'warning')
+      .map(formatChecklistIssue);
+    expect(warnings).toEqual([
+      '[WARNING] 3_empty title: section has no title',
+      '[WARNING] 3_empty requirements: section has no requirements',
+      '[WARNING] checklist meta.totals.total_checks: declares 20 but checklist contains 11',
+      '[WARNING] checklist meta.totals.mandatory_checks: declares 3 but checklist contains 7',
+    ]);
+  });
+
+  test('a checklist without sections is one error', () => {
+    expect(validateChecklist({ sections: {} })).toEqual([
+      { level: 'error', field: 'sections', message: 'checklist has no sections' },
+    ]);
+  });
+
+  test('the shipped checklist has no issues', () => {
+    expect(validateChecklist(readChecklist(resolveAuditPath())).map(formatChecklistIssue)).toEqual(
+      []
+    );
+  });
+});
+
+test.describe('ChecklistValidationError', () => {
+  test('lists only the errors', () => {
+    const error = new ChecklistValidationError('broken.json', validateChecklist(BROKEN));
+    expect(error.message.split('\n')).toHaveLength(18);
+    expect(error.message).toMatch(
+      /^checklist broken\.json has 17 error\(s\)\n\[ERROR\] 1\.2 \(1_info\) /
+    );
+    expect(error.message).not.toContain('[WARNING]');
+  });
+});
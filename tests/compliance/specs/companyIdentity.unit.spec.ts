@@ -0,0 +1,62 @@
+/**
+ * IDNO control digit and the verdict of `company_identity` on a mismatch, over fixed page texts.
+ */
+
+import { test, expect } from '@playwright/test';
+import { checkIdno, companyIdentityCheck } from '../checks/companyIdentity.check';
+import { AutomationType } from '../engine/types';
+import { fixedPages } from './fixtures/pages';
+import { fixtureRequirement } from './fixtures/requirements';
+
+/** Accepted by the stdnum-js reference implementation (`md/idno`). */
+const VALID_IDNO = ['1008600038413', '1002600003848', '1002600001338'];
+
+const REQUIREMENT = fixtureRequirement('1.1', AutomationType.company_identity, {
+  require: ['idno'],
+});
+
+function runOn(text: string): ReturnType<typeof companyIdentityCheck> {
+  const { page, crawl } = fixedPages([text]);
+  return companyIdentityCheck(page, REQUIREMENT, crawl);
+}
+
+test.describe('checkIdno', () => {
+  for (const value of VALID_IDNO) {
+    test(`${value} has a valid control digit`, () => {
+      expect(checkIdno(value)).toEqual({ value, checksumOk: true, legalEntity: true });
+    });
+
+    test(`${value} with another last digit is rejected`, () => {
+      const bad = value.slice(0, 12) + String((Number(value[12]) + 1) % 10);
+      expect(checkIdno(bad).checksumOk).toBe(false);
+    });
+  }
+
+  test('a code starting with 2 is a personal IDNP', () => {
+    const idnp = checkIdno('2004001234567');
+    expect(idnp.checksumOk).toBe(true);
+    expect(idnp.legalEntity).toBe(false);
+  });
+
+  test('a 12-digit value is rejected', () => {
+    expect(checkIdno('100860003841').checksumOk).toBe(false);
+  });
+});
+
+test.describe('companyIdentityCheck', () => {
+  test('a valid IDNO passes', async () => {
+    const result = await runOn('S.R.L. «Exemplu» IDNO 1008600038413');
+    expect(result.status).toBe('PASS');
+  });
+
+  test('a control digit mismatch is a warning, not a failure', async () => {
+    const result = await runOn('S.R.L. «Exemplu» IDNO 1003600007328');
+    expect(result.status).toBe('WARN');
+    expect(result.reason).toMatch(/control digit/);
+  });
+
+  test('no 13-digit code fails', async () => {
+    const result = await runOn('S.R.L. «Exemplu», cod fiscal indisponibil');
+    expect(result.status).toBe('FAIL');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * JUnit and SARIF exports of a fixture report: how every status maps to testcases and SARIF results.
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+import { test, expect } from '@playwright/test';
+import { ExportFormatError, parseExportFormats, renderExport } from '../reporting/exporters';
+import { toJUnitXml } from '../reporting/junit';
+import { toSarif } from '../reporting/sarif';
+import { fixtureReport, fixtureResult } from './fixtures/reports';
+
+/** The parts of the SARIF log the assertions read. */
+type SarifLog = {
+  runs: Array<{
+    results: Array<{
+      ruleId: string;
+      kind: string;
+      level: string;
+      locations: Array<{
+        logicalLocations: Array<{ name: string; fullyQualifiedName: string; kind: string }>;
+        physicalLocation?: {
+          artifactLocation: { uri: string };
+          region: { startLine: number };
+        };
+      }>;
+      suppressions?: Array<{ kind: string; status: string; justification: string }>;
+      properties: { status: string; pageUrl: string };
+    }>;
+  }>;
+};
+
+const REPORT = fixtureReport([
+  fixtureResult('1.1', 'PASS', { severity: 'CRITIC' }),
+  fixtureResult('1.2', 'FAIL', {
+    severity: 'CRITIC',
+    reason: 'missing <IDNO> & "address"',
+    evidence: { url: 'https://shop.example.md/contacte' },
+  }),
+  fixtureResult('1.3', 'WARN', { severity: 'RIDICAT' }),
+  fixtureResult('2.1', 'SKIPPED', {
+    meta: { desc: 'Manual', automationType: 'manual_check' },
+  }),
+  fixtureResult('2.2', 'SKIPPED'),
+  fixtureResult('2.3', 'WAIVED', {
+    severity: 'MEDIU',
+    waiver: {
+      justification: 'Partner checkout',
+      owner: 'legal@example.md',
+      expires: '2026-12-31',
+      originalStatus: 'FAIL',
+      expired: false,
+    },
+  }),
+  fixtureResult('3.1', 'FAIL', { severity: 'SCAZUT' }),
+]);
+
+const CHECKLIST = path.join(__dirname, 'fixtures', 'checklist-head.json');
+const CHECKLIST_URI = 'tests/compliance/specs/fixtures/checklist-head.json';
+
+function sarifResults(): SarifLog['runs'][number]['results'] {
+  const text = fs.readFileSync(CHECKLIST, 'utf-8');
+  return (toSarif(REPORT, { checklist: { uri: CHECKLIST_URI, text } }) as SarifLog).runs[0].results;
+}
+
+test.describe('toJUnitXml', () => {
+  test('one testsuite per section with failure and skipped counts', () => {
+    const xml = toJUnitXml(REPORT);
+    expect(xml).toContain(
+      '<testsuites name="compliance fixture" tests="7" failures="2" errors="0" skipped="3" time="0">'
+    );
+    expect(xml).toContain(
+      '<testsuite name="section_1" tests="3" failures="1" errors="0" skipped="0"'
+    );
+    expect(xml).toContain(
+      '<testsuite name="section_2" tests="3" failures="0" errors="0" skipped="3"'
+    );
+  });
+
+  test('escapes reasons in the failure message', () => {
+    expect(toJUnitXml(REPORT)).toContain(
+      '<failure message="missing &lt;IDNO&gt; &amp; &quot;address&quot;" type="FAIL CRITIC">url: https://shop.example.md/contacte</failure>'
+    );
+  });
+
+  test('WARN passes by default and fails with warnAsFailure', () => {
+    expect(toJUnitXml(REPORT)).toContain('<system-out>WARN: fixture: WARN');
+    expect(toJUnitXml(REPORT, { warnAsFailure: true })).toContain(
+      'failures="3" errors="0" skipped="3"'
+    );
+  });
+
+  test('waived findings are skipped with their reason', () => {
+    expect(toJUnitXml(REPORT)).toContain('<skipped message="WAIVED: fixture: WAIVED"/>');
+  });
+});
+
+test.describe('toSarif', () => {
+  test('maps statuses to kinds and severities to levels', () => {
+    const mapped = sarifResults().map(r => [r.ruleId, r.kind, r.level]);
+    expect(mapped).toEqual([
+      ['1.1', 'pass', 'none'],
+      ['1.2', 'fail', 'error'],
+      ['1.3', 'fail', 'warning'],
+      ['2.1', 'review', 'none'],
+      ['2.2', 'notApplicable', 'none'],
+      ['2.3', 'fail', 'warning'],
+      ['3.1', 'fail', 'note'],
+    ]);
+  });
+
+  test('an active waiver is an accepted suppression', () => {
+    const waived = sarifResults().find(r => r.ruleId === '2.3')!;
+    expect(waived.suppressions).toEqual([
+      {
+        kind: 'external',
+        status: 'accepted',
+        justification: 'Partner checkout (owner legal@example.md, until 2026-12-31)',
+      },
+    ]);
+    expect(sarifResults().find(r => r.ruleId === '1.2')!.suppressions).toBeUndefined();
+  });
+
+  test('results are anchored to the requirement line in the checklist', () => {
+    const [first, second] = sarifResults();
+    expect(first.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: CHECKLIST_URI },
+      region: { startLine: 7 },
+    });
+    expect(second.locations[0].physicalLocation!.region.startLine).toBe(14);
+  });
+
+  test('a requirement missing from the checklist text is anchored to its first line', () => {
+    const missing = sarifResults().find(r => r.ruleId === '3.1')!;
+    expect(missing.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: CHECKLIST_URI },
+      region: { startLine: 1 },
+    });
+  });
+
+  test('without a checklist the result falls back to the one recorded in the report', () => {
+    const report = { ...REPORT, meta: { ...REPORT.meta, checklistFile: 'audit/checklist.json' } };
+    const [first] = (toSarif(report) as SarifLog).runs[0].results;
+    expect(first.locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: 'audit/checklist.json' },
+      region: { startLine: 1 },
+    });
+  });
+
+  test('the checked page stays a logical location and a property', () => {
+    const failed = sarifResults().find(r => r.ruleId === '1.2')!;
+    expect(failed.locations[0].logicalLocations).toEqual([
+      { name: '1.2', fullyQualifiedName: 'https://shop.example.md/contacte', kind: 'resource' },
+    ]);
+    expect(failed.properties.pageUrl).toBe('https://shop.example.md/contacte');
+  });
+});
+
+test.describe('parseExportFormats', () => {
+  test('reads names case-insensitively, once each', () => {
+    expect(parseExportFormats(' SARIF, junit,,sarif ', '--format')).toEqual(['sarif', 'junit']);
+    expect(parseExportFormats('', '--format')).toEqual([]);
+  });
+
+  test('an unknown format throws', () => {
+    expect(() => parseExportFormats('junit,xml', 'COMPLIANCE_EXPORT')).toThrow(ExportFormatError);
+    expect(() => parseExportFormats('junit,xml', 'COMPLIANCE_EXPORT')).toThrow(
+      'COMPLIANCE_EXPORT: unknown export format(s) xml (available: junit, sarif)'
+    );
+  });
+
+  test('renders SARIF as JSON and JUnit as XML', () => {
+    expect(JSON.parse(renderExport(REPORT, 'sarif'))).toMatchObject({ version: '2.1.0' });
+    const sarif = JSON.parse(
+      renderExport(REPORT, 'sarif', { checklistPath: CHECKLIST })
+    ) as SarifLog;
+    expect(sarif.runs[0].results[0].locations[0].physicalLocation).toEqual({
+      artifactLocation: { uri: CHECKLIST_URI },
+      region: { startLine: 7 },
+    });
+    expect(renderExport(REPORT, 'junit')).toMatch(/^<\?xml /);
+  });
+});
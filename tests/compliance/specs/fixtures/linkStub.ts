@@ -0,0 +1,47 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+
+/**
+ * Local server for the link prober: plain 200, redirect chains, dead targets, servers that reject HEAD, redirect
+ * loops, redirects without a Location header and slow answers. Used by `links.unit.spec.ts` and
+ * `linkPresence.unit.spec.ts`.
+ */
+export type LinkStub = {
+  base: string;
+  close: () => void;
+};
+
+function createStub(): http.Server {
+  return http.createServer((req, res) => {
+    const url = req.url || '/';
+    const redirect = (to: string, status = 301): void => {
+      res.writeHead(status, { Location: to });
+      res.end();
+    };
+    if (url === '/ok') return void res.writeHead(200).end('ok');
+    if (url === '/moved') return redirect('/moved-again');
+    if (url === '/moved-again') return redirect('/ok', 302);
+    if (url === '/gone') return void res.writeHead(404).end('not found');
+    if (url === '/broken') return redirect('/gone');
+    if (url === '/no-head') return void res.writeHead(req.method === 'HEAD' ? 405 : 200).end();
+    if (url === '/loop-a') return redirect('/loop-b');
+    if (url === '/loop-b') return redirect('/loop-a');
+    if (url === '/no-location') return void res.writeHead(302).end();
+    if (url === '/slow') return void setTimeout(() => res.writeHead(200).end('late'), 3000);
+    res.writeHead(500).end('unexpected');
+  });
+}
+
+export async function startLinkStub(): Promise<LinkStub> {
+  const server = createStub();
+  const port = await new Promise<number>(resolve =>
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+  );
+  return {
+    base: `http://127.0.0.1:${port}`,
+    close: (): void => {
+      server.closeAllConnections();
+      server.close();
+    },
+  };
+}
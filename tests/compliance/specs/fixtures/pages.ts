@@ -0,0 +1,17 @@
+import type { Page } from '@playwright/test';
+import type { CrawledPage, CrawlSession } from '../../engine/crawl';
+
+/**
+ * A page and a crawl session serving fixed texts, for checks that read page text through `crawl.pagesFrom`.
+ * The first text is the route page; `page` only answers `url()`.
+ */
+export function fixedPages(texts: string[]): { page: Page; crawl: CrawlSession } {
+  const pages: CrawledPage[] = texts.map((text, i) => ({
+    url: `https://shop.example.md/page-${i + 1}`,
+    depth: i ? 1 : 0,
+    text,
+  }));
+  const page = { url: () => pages[0].url } as unknown as Page;
+  const crawl = { pagesFrom: () => Promise.resolve(pages) } as unknown as CrawlSession;
+  return { page, crawl };
+}
@@ -0,0 +1,48 @@
+import type { CheckResult, ComplianceReport, ResultStatus } from '../../engine/types';
+
+/** A minimal result for `id`; the section is the part of the id before the first dot. */
+export function fixtureResult(
+  id: string,
+  status: ResultStatus,
+  overrides: Partial<CheckResult> = {}
+): CheckResult {
+  return {
+    id,
+    sectionKey: `section_${id.split('.')[0]}`,
+    status,
+    reason: `fixture: ${status}`,
+    severity: 'RIDICAT',
+    scope: 'MANDATORY',
+    whereToVerify: 'Footer',
+    evidence: { url: 'https://shop.example.md/' },
+    meta: { desc: `Requirement ${id}`, automationType: 'keyword_search' },
+    ...overrides,
+  };
+}
+
+/** A report over `results`, with the summary counted from them. */
+export function fixtureReport(
+  results: CheckResult[],
+  meta: Partial<ComplianceReport['meta']> = {}
+): ComplianceReport {
+  const count = (status: ResultStatus): number => results.filter(r => r.status === status).length;
+  return {
+    meta: {
+      siteId: 'fixture',
+      baseUrl: 'https://shop.example.md',
+      generatedAt: '2026-10-01T08:00:00.000Z',
+      filters: { siteId: 'fixture', scope: 'ALL', minSeverity: 'SCAZUT' },
+      checklistVersion: '2.2',
+      ...meta,
+    },
+    summary: {
+      total: results.length,
+      pass: count('PASS'),
+      fail: count('FAIL'),
+      warn: count('WARN'),
+      skipped: count('SKIPPED'),
+      waived: count('WAIVED'),
+    },
+    results,
+  };
+}
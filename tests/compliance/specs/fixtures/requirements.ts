@@ -0,0 +1,20 @@
+import type { AutomationType, NormalizedRequirement } from '../../engine/types';
+
+/** A MANDATORY requirement automated as `type` with the given checklist `automation` fields. */
+export function fixtureRequirement(
+  id: string,
+  type: AutomationType,
+  raw: Record<string, unknown> = {},
+  overrides: Partial<NormalizedRequirement> = {}
+): NormalizedRequirement {
+  return {
+    id,
+    sectionKey: `section_${id.split('.')[0]}`,
+    desc: `Requirement ${id}`,
+    whereToVerify: 'Footer',
+    severity: 'CRITIC',
+    scope: 'MANDATORY',
+    automation: { type, raw: { type, ...raw } },
+    ...overrides,
+  };
+}
@@ -0,0 +1,137 @@
+/**
+ * CI gate over fixture reports: blocking severity and scope, per-severity budgets, WARN handling and env parsing.
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  evaluateGate,
+  GateConfigError,
+  readGatePolicyFromEnv,
+  type GatePolicy,
+} from '../engine/gate';
+import { fixtureReport, fixtureResult } from './fixtures/reports';
+
+const POLICY: GatePolicy = {
+  enabled: true,
+  blockingSeverity: 'CRITIC',
+  blockingScope: 'MANDATORY',
+  maxFindings: {},
+  warnAsFail: false,
+};
+
+const GATE_VARIABLES = [
+  'COMPLIANCE_GATE',
+  'COMPLIANCE_GATE_SEVERITY',
+  'COMPLIANCE_GATE_SCOPE',
+  'COMPLIANCE_GATE_MAX',
+  'COMPLIANCE_GATE_WARN_AS_FAIL',
+] as const;
+
+test.describe('evaluateGate', () => {
+  test('a CRITIC MANDATORY failure blocks', () => {
+    const gate = evaluateGate(
+      fixtureReport([fixtureResult('1.1', 'FAIL', { severity: 'CRITIC' })]),
+      POLICY
+    );
+    expect(gate.passed).toBe(false);
+    expect(gate.blocking.map(r => r.id)).toEqual(['1.1']);
+  });
+
+  test('failures below the blocking severity or outside the scope only use budgets', () => {
+    const report = fixtureReport([
+      fixtureResult('1.1', 'FAIL', { severity: 'RIDICAT' }),
+      fixtureResult('1.2', 'FAIL', { severity: 'CRITIC', scope: 'BEST_PRACTICE' }),
+    ]);
+    const gate = evaluateGate(report, POLICY);
+    expect(gate.passed).toBe(true);
+    expect(gate.findingsBySeverity).toEqual({ CRITIC: 1, RIDICAT: 1, MEDIU: 0, SCAZUT: 0 });
+
+    const all = evaluateGate(report, {
+      ...POLICY,
+      blockingScope: 'ALL',
+      blockingSeverity: 'RIDICAT',
+    });
+    expect(all.blocking.map(r => r.id)).toEqual(['1.1', '1.2']);
+  });
+
+  test('WARN counts against the budgets without warnAsFail', () => {
+    const report = fixtureReport(
+      Array.from({ length: 4 }, (_, i) =>
+        fixtureResult(`3.${i + 1}`, 'WARN', { severity: 'MEDIU' })
+      )
+    );
+    const gate = evaluateGate(report, { ...POLICY, maxFindings: { MEDIU: 3 } });
+    expect(gate.passed).toBe(false);
+    expect(gate.blocking).toEqual([]);
+    expect(gate.exceeded).toEqual([{ severity: 'MEDIU', count: 4, max: 3 }]);
+  });
+
+  test('a CRITIC WARN blocks only with warnAsFail', () => {
+    const report = fixtureReport([fixtureResult('1.1', 'WARN', { severity: 'CRITIC' })]);
+    expect(evaluateGate(report, POLICY).passed).toBe(true);
+    const strict = evaluateGate(report, { ...POLICY, warnAsFail: true });
+    expect(strict.passed).toBe(false);
+    expect(strict.blocking.map(r => r.id)).toEqual(['1.1']);
+  });
+
+  test('WAIVED, SKIPPED and PASS never count', () => {
+    const report = fixtureReport([
+      fixtureResult('1.1', 'WAIVED', { severity: 'CRITIC' }),
+      fixtureResult('1.2', 'SKIPPED', { severity: 'CRITIC' }),
+      fixtureResult('3.1', 'PASS', { severity: 'MEDIU' }),
+    ]);
+    const gate = evaluateGate(report, { ...POLICY, maxFindings: { CRITIC: 0, MEDIU: 0 } });
+    expect(gate.passed).toBe(true);
+    expect(gate.findingsBySeverity).toEqual({ CRITIC: 0, RIDICAT: 0, MEDIU: 0, SCAZUT: 0 });
+  });
+});
+
+test.describe('readGatePolicyFromEnv', () => {
+  const previous = Object.fromEntries(GATE_VARIABLES.map(name => [name, process.env[name]]));
+
+  test.beforeEach(() => {
+    for (const name of GATE_VARIABLES) delete process.env[name];
+  });
+
+  test.afterEach(() => {
+    for (const name of GATE_VARIABLES) {
+      if (previous[name] === undefined) delete process.env[name];
+      else process.env[name] = previous[name];
+    }
+  });
+
+  test('defaults to a disabled CRITIC/MANDATORY gate without budgets', () => {
+    expect(readGatePolicyFromEnv()).toEqual({ ...POLICY, enabled: false });
+  });
+
+  test('reads every variable', () => {
+    process.env.COMPLIANCE_GATE = 'yes';
+    process.env.COMPLIANCE_GATE_SEVERITY = 'mediu';
+    process.env.COMPLIANCE_GATE_SCOPE = 'all';
+    process.env.COMPLIANCE_GATE_MAX = 'MEDIU:5, scazut:10';
+    process.env.COMPLIANCE_GATE_WARN_AS_FAIL = 'true';
+    expect(readGatePolicyFromEnv()).toEqual({
+      enabled: true,
+      blockingSeverity: 'MEDIU',
+      blockingScope: 'ALL',
+      maxFindings: { MEDIU: 5, SCAZUT: 10 },
+      warnAsFail: true,
+    });
+  });
+
+  const invalid: Array<[(typeof GATE_VARIABLES)[number], string]> = [
+    ['COMPLIANCE_GATE_MAX', 'MEDIUM:5'],
+    ['COMPLIANCE_GATE_MAX', 'MEDIU:-1'],
+    ['COMPLIANCE_GATE_MAX', 'MEDIU'],
+    ['COMPLIANCE_GATE_SEVERITY', 'CRITICAL'],
+    ['COMPLIANCE_GATE_SCOPE', 'mandatory-only'],
+    ['COMPLIANCE_GATE_WARN_AS_FAIL', 'sometimes'],
+  ];
+  for (const [name, value] of invalid) {
+    test(`${name}=${value} throws`, () => {
+      process.env[name] = value;
+      expect(() => readGatePolicyFromEnv()).toThrow(GateConfigError);
+      expect(() => readGatePolicyFromEnv()).toThrow(name);
+    });
+  }
+});
@@ -0,0 +1,108 @@
+/**
+ * Language selection and how RO/RU results of one requirement are merged.
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  combineLanguageResults,
+  localizeUrl,
+  readLanguagesFromEnv,
+  type Language,
+} from '../engine/languages';
+import type { RoutedPartial } from '../engine/routing';
+import type { ResultStatus } from '../engine/types';
+
+function variant(lang: Language, status: ResultStatus): { lang: Language; partial: RoutedPartial } {
+  const url =
+    lang === 'RU' ? 'https://shop.example.md/ru/contacte' : 'https://shop.example.md/contacte';
+  return {
+    lang,
+    partial: {
+      status,
+      reason: `${lang}: ${status}`,
+      evidence: { url, screenshots: [{ path: `${lang.toLowerCase()}.png` }] },
+    },
+  };
+}
+
+test.describe('readLanguagesFromEnv', () => {
+  const previous = process.env.COMPLIANCE_LANGUAGES;
+
+  test.afterEach(() => {
+    if (previous === undefined) delete process.env.COMPLIANCE_LANGUAGES;
+    else process.env.COMPLIANCE_LANGUAGES = previous;
+  });
+
+  test('keeps known languages in order, once', () => {
+    process.env.COMPLIANCE_LANGUAGES = 'ru, ro, EN, RU';
+    expect(readLanguagesFromEnv()).toEqual(['RU', 'RO']);
+  });
+
+  test('defaults to RO', () => {
+    delete process.env.COMPLIANCE_LANGUAGES;
+    expect(readLanguagesFromEnv()).toEqual(['RO']);
+  });
+});
+
+test.describe('localizeUrl', () => {
+  test('adds and removes the /ru prefix', () => {
+    expect(localizeUrl('https://shop.example.md', 'RU')).toBe('https://shop.example.md/ru/');
+    expect(localizeUrl('https://shop.example.md/contacte', 'RU')).toBe(
+      'https://shop.example.md/ru/contacte'
+    );
+    expect(localizeUrl('https://shop.example.md/ru/contacte', 'RO')).toBe(
+      'https://shop.example.md/contacte'
+    );
+  });
+});
+
+test.describe('combineLanguageResults', () => {
+  test('a single language is returned as is', () => {
+    const ro = variant('RO', 'FAIL');
+    expect(combineLanguageResults([ro])).toBe(ro.partial);
+  });
+
+  test('PASS in the primary language only becomes WARN', () => {
+    const result = combineLanguageResults([variant('RO', 'PASS'), variant('RU', 'FAIL')]);
+    expect(result.status).toBe('WARN');
+    expect(result.reason).toBe('passes in RO but not in RU (RO=PASS, RU=FAIL): [RU] RU: FAIL');
+    expect(result.languages).toEqual({
+      primary: 'RO',
+      mismatch: true,
+      results: [
+        { lang: 'RO', status: 'PASS', reason: 'RO: PASS', url: 'https://shop.example.md/contacte' },
+        {
+          lang: 'RU',
+          status: 'FAIL',
+          reason: 'RU: FAIL',
+          url: 'https://shop.example.md/ru/contacte',
+        },
+      ],
+    });
+  });
+
+  test('the primary language decides a failure; the mismatch is noted', () => {
+    const result = combineLanguageResults([variant('RO', 'FAIL'), variant('RU', 'PASS')]);
+    expect(result.status).toBe('FAIL');
+    expect(result.reason).toBe('RO: FAIL (language mismatch: RO=FAIL, RU=PASS)');
+    expect(result.languages?.mismatch).toBe(true);
+  });
+
+  test('FAIL and WARN agree; SKIPPED is not a mismatch', () => {
+    const failWarn = combineLanguageResults([variant('RO', 'FAIL'), variant('RU', 'WARN')]);
+    expect(failWarn.languages?.mismatch).toBe(false);
+    const skipped = combineLanguageResults([variant('RO', 'PASS'), variant('RU', 'SKIPPED')]);
+    expect(skipped.status).toBe('PASS');
+    expect(skipped.languages?.mismatch).toBe(false);
+  });
+
+  test('screenshots of every language are kept; the primary evidence URL wins', () => {
+    const result = combineLanguageResults([variant('RO', 'PASS'), variant('RU', 'PASS')]);
+    expect(result.evidence.url).toBe('https://shop.example.md/contacte');
+    expect(result.evidence.screenshots?.map(s => s.path)).toEqual(['ro.png', 'ru.png']);
+  });
+
+  test('no variant is SKIPPED', () => {
+    expect(combineLanguageResults([]).status).toBe('SKIPPED');
+  });
+});
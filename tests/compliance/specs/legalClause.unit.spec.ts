@@ -0,0 +1,103 @@
+/**
+ * Period extraction of `legal_clause` over fixed RO/RU sentences: number words, "de" before the unit,
+ * parenthesised numbers and conflicting statements.
+ */
+
+import { test, expect } from '@playwright/test';
+import { legalClauseCheck, type LegalClause } from '../checks/legalClause.check';
+import { AutomationType } from '../engine/types';
+import { fixedPages } from './fixtures/pages';
+import { fixtureRequirement } from './fixtures/requirements';
+
+function runOn(clause: LegalClause, ...texts: string[]): ReturnType<typeof legalClauseCheck> {
+  const { page, crawl } = fixedPages(texts);
+  return legalClauseCheck(
+    page,
+    fixtureRequirement('7.1', AutomationType.legal_clause, { clause }),
+    crawl
+  );
+}
+
+test.describe('legalClauseCheck periods', () => {
+  const passing: Array<[LegalClause, string, string]> = [
+    [
+      'withdrawal_period',
+      'Aveți dreptul să returnați produsul în termen de 30 de zile.',
+      '30 de zile',
+    ],
+    ['withdrawal_period', 'Dreptul de retragere se exercită în 14 zile calendaristice.', '14 zile'],
+    [
+      'withdrawal_period',
+      'Termenul de renunțare este de 14 (paisprezece) zile de la primirea produsului.',
+      '14 (paisprezece) zile',
+    ],
+    ['withdrawal_period', 'Puteți renunța la contract în 20 de zile calendaristice.', '20 de zile'],
+    [
+      'withdrawal_period',
+      'Вы можете отказаться от покупки в течение четырнадцать дней.',
+      'четырнадцать дней',
+    ],
+    [
+      'withdrawal_period',
+      'Срок отказа от товара составляет 14 календарных дней.',
+      '14 календарных дней',
+    ],
+    ['refund_period', 'Rambursarea sumei achitate se face în cel mult 14 zile.', '14 zile'],
+    ['refund_period', 'Возврат денежных средств производится в течение 10 дней.', '10 дней'],
+    ['legal_warranty', 'Termenul de garanție este de 24 de luni.', '24 de luni'],
+    ['legal_warranty', 'Garanția legală este de doi ani.', 'doi ani'],
+    ['legal_warranty', 'Гарантийный срок составляет 24 месяца.', '24 месяца'],
+  ];
+
+  for (const [clause, sentence, stated] of passing) {
+    test(`${clause}: "${sentence}"`, async () => {
+      const result = await runOn(clause, sentence);
+      expect(result.status).toBe('PASS');
+      expect(result.reason).toContain(`("${stated}")`);
+    });
+  }
+
+  test('a period below the legal minimum fails', async () => {
+    const result = await runOn('legal_warranty', 'Garanția oferită este de 12 luni.');
+    expect(result.status).toBe('FAIL');
+    expect(result.reason).toContain('stated as "12 luni"');
+  });
+
+  test('a refund term above the maximum fails', async () => {
+    const result = await runOn('refund_period', 'Banii vor fi restituiți în 30 de zile.');
+    expect(result.status).toBe('FAIL');
+  });
+
+  test('a return of money is not a withdrawal period', async () => {
+    const result = await runOn('withdrawal_period', 'Returul banilor se face în 30 de zile.');
+    expect(result.status).toBe('FAIL');
+    expect(result.reason).toMatch(/no withdrawal period with a number/);
+  });
+
+  test('a longer number does not hide a shorter one ("114" is not "14")', async () => {
+    const result = await runOn(
+      'withdrawal_period',
+      'Dreptul de retragere: vezi art. 114 zile-lumină.'
+    );
+    expect(result.status).toBe('FAIL');
+  });
+
+  test('conflicting statements on different pages give WARN', async () => {
+    const result = await runOn(
+      'withdrawal_period',
+      'Aveți dreptul de retragere în 14 zile.',
+      'Dreptul de retragere se exercită în 7 zile de la livrare.'
+    );
+    expect(result.status).toBe('WARN');
+    expect(result.reason).toContain('conflicting withdrawal period statements');
+  });
+
+  test('the duration nearest to the topic words is taken', async () => {
+    const result = await runOn(
+      'legal_warranty',
+      'Garanția de 2 ani nu acoperă transportul, care durează 3 zile.'
+    );
+    expect(result.status).toBe('PASS');
+    expect(result.reason).toContain('("2 ani")');
+  });
+});
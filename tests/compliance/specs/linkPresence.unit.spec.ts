@@ -0,0 +1,101 @@
+/**
+ * `link_presence` with `"verify_live": true`: visibility and nofollow verdicts, with anchors as the page reports
+ * them and targets answered by the local stub server.
+ */
+
+import { test, expect, type Page } from '@playwright/test';
+import { linkPresenceCheck, type MatchedAnchor } from '../checks/linkPresence.check';
+import { AutomationType } from '../engine/types';
+import { startLinkStub, type LinkStub } from './fixtures/linkStub';
+import { fixtureRequirement } from './fixtures/requirements';
+
+const REQ = fixtureRequirement('1.5', AutomationType.link_presence, {
+  target_url: 'consumator.gov.md',
+  verify_live: true,
+  timeout_ms: 2000,
+});
+
+/** A page whose in-page anchor inspection returns `anchors`. */
+function anchorPage(anchors: MatchedAnchor[]): Page {
+  return {
+    url: () => 'https://shop.example.md/',
+    evaluate: () => Promise.resolve(anchors),
+  } as unknown as Page;
+}
+
+test.describe('linkPresenceCheck with verify_live', () => {
+  let stub: LinkStub;
+
+  test.beforeAll(async () => {
+    stub = await startLinkStub();
+  });
+
+  test.afterAll(() => {
+    stub.close();
+  });
+
+  function anchor(target: string, overrides: Partial<MatchedAnchor> = {}): MatchedAnchor {
+    return {
+      href: target,
+      resolved: `${stub.base}${target}`,
+      text: 'ANPC',
+      rel: '',
+      visible: true,
+      ...overrides,
+    };
+  }
+
+  test('a visible link that answers passes', async () => {
+    const result = await linkPresenceCheck(anchorPage([anchor('/ok')]), REQ);
+    expect(result.status).toBe('PASS');
+    expect(result.reason).toContain('answers 200');
+    expect(result.evidence?.satisfiedByUrl).toBe(`${stub.base}/ok`);
+  });
+
+  test('only hidden links fail and are not probed', async () => {
+    const result = await linkPresenceCheck(
+      anchorPage([
+        anchor('/ok', { visible: false, hiddenBy: 'display:none' }),
+        anchor('/ok', { visible: false, hiddenBy: 'off-screen' }),
+      ]),
+      REQ
+    );
+    expect(result.status).toBe('FAIL');
+    expect(result.reason).toContain('none visible (display:none, off-screen)');
+    expect(result.evidence?.redirectChains).toEqual([]);
+  });
+
+  test('a visible link behind hidden duplicates is still probed', async () => {
+    const hidden = Array.from({ length: 8 }, () =>
+      anchor('/gone', { visible: false, hiddenBy: 'display:none' })
+    );
+    const result = await linkPresenceCheck(anchorPage([...hidden, anchor('/ok')]), REQ);
+    expect(result.status).toBe('PASS');
+    expect(result.evidence?.matchedSnippets).toHaveLength(6);
+    expect(result.evidence?.matchedSnippets?.[0]).toContain('/ok "ANPC" visible');
+  });
+
+  test('a working link present only as nofollow warns', async () => {
+    const result = await linkPresenceCheck(
+      anchorPage([anchor('/ok', { rel: 'nofollow noopener' })]),
+      REQ
+    );
+    expect(result.status).toBe('WARN');
+    expect(result.reason).toContain('only with rel="nofollow noopener"');
+  });
+
+  test('a followed link next to a nofollow one passes', async () => {
+    const result = await linkPresenceCheck(
+      anchorPage([anchor('/ok', { rel: 'nofollow' }), anchor('/moved')]),
+      REQ
+    );
+    expect(result.status).toBe('PASS');
+    expect(result.reason).toContain(`${stub.base}/moved answers 200 after 2 redirect(s)`);
+  });
+
+  test('a visible dead link fails', async () => {
+    const result = await linkPresenceCheck(anchorPage([anchor('/gone')]), REQ);
+    expect(result.status).toBe('FAIL');
+    expect(result.reason).toBe('link_presence: link to "consumator.gov.md" is dead (HTTP 404)');
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Link prober behind `link_presence` with `"verify_live": true`, against the local stub server.
+ */
+
+import { test, expect } from '@playwright/test';
+import { probeLink } from '../engine/links';
+import { startLinkStub, type LinkStub } from './fixtures/linkStub';
+
+test.describe('probeLink', () => {
+  let stub: LinkStub;
+
+  test.beforeAll(async () => {
+    stub = await startLinkStub();
+  });
+
+  test.afterAll(() => {
+    stub.close();
+  });
+
+  test('200 is live with HEAD', async () => {
+    const probe = await probeLink(`${stub.base}/ok`);
+    expect(probe.live).toBe(true);
+    expect(probe.finalStatus).toBe(200);
+    expect(probe.method).toBe('HEAD');
+  });
+
+  test('records every hop of a redirect chain', async () => {
+    const probe = await probeLink(`${stub.base}/moved`);
+    expect(probe.live).toBe(true);
+    expect(probe.hops.map(h => h.status)).toEqual([301, 302, 200]);
+  });
+
+  test('404 is dead after a GET retry', async () => {
+    const probe = await probeLink(`${stub.base}/gone`);
+    expect(probe.live).toBe(false);
+    expect(probe.finalStatus).toBe(404);
+    expect(probe.method).toBe('GET');
+  });
+
+  test('redirect to a dead page is dead', async () => {
+    const probe = await probeLink(`${stub.base}/broken`);
+    expect(probe.live).toBe(false);
+    expect(probe.hops).toHaveLength(2);
+  });
+
+  test('HEAD 405 is retried with GET', async () => {
+    const probe = await probeLink(`${stub.base}/no-head`);
+    expect(probe.live).toBe(true);
+    expect(probe.method).toBe('GET');
+  });
+
+  test('redirect loop is dead', async () => {
+    const probe = await probeLink(`${stub.base}/loop-a`);
+    expect(probe.live).toBe(false);
+    expect(probe.error).toMatch(/loop/);
+  });
+
+  test('3xx without Location is dead', async () => {
+    const probe = await probeLink(`${stub.base}/no-location`);
+    expect(probe.live).toBe(false);
+    expect(probe.finalStatus).toBe(302);
+    expect(probe.error).toMatch(/Location/);
+  });
+
+  test('max_redirects is enforced', async () => {
+    const probe = await probeLink(`${stub.base}/moved`, { maxRedirects: 1 });
+    expect(probe.live).toBe(false);
+    expect(probe.error).toMatch(/redirects/);
+  });
+
+  test('no answer within the timeout is reported as a timeout', async () => {
+    const probe = await probeLink(`${stub.base}/slow`, { timeoutMs: 500 });
+    expect(probe.live).toBe(false);
+    expect(probe.timedOut).toBe(true);
+  });
+
+  test('closed port is dead, not a timeout', async () => {
+    const probe = await probeLink('http://127.0.0.1:1/', { timeoutMs: 2000 });
+    expect(probe.live).toBe(false);
+    expect(probe.timedOut).toBe(false);
+    expect(probe.error).toBeTruthy();
+  });
+});
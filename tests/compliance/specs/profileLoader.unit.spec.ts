@@ -0,0 +1,114 @@
+/**
+ * Site profile discovery and validation against the profile fixtures: every problem reported at once, unknown and
+ * duplicate site ids.
+ */
+
+import path from 'path';
+
+import { test, expect } from '@playwright/test';
+import {
+  getSiteProfile,
+  loadSiteProfiles,
+  parseProfileFile,
+  SiteProfileError,
+  validateSiteProfile,
+} from '../site/profileLoader';
+
+const PROFILES = path.join(__dirname, 'fixtures', 'profiles');
+const VALID = path.join(PROFILES, 'valid');
+
+test.describe('loadSiteProfiles', () => {
+  test('loads every profile file in the directory, sorted by file name', () => {
+    const loaded = loadSiteProfiles(VALID);
+    expect(loaded.map(l => [l.profile.id, path.basename(l.source)])).toEqual([
+      ['outlet', 'outlet.profile.yml'],
+      ['shop', 'shop.profile.yaml'],
+    ]);
+  });
+
+  test('optional mappings default to empty', () => {
+    const outlet = getSiteProfile('outlet', VALID);
+    expect(outlet.routesById).toEqual({});
+    expect(outlet.elementVisibilityById).toEqual({});
+    expect(getSiteProfile('shop', VALID).routesById?.['1.5']).toEqual({
+      routes: ['home', 'contact'],
+      mode: 'all',
+    });
+  });
+
+  test('a duplicate id throws with both files', () => {
+    const dir = path.join(PROFILES, 'duplicate');
+    let error: unknown;
+    try {
+      loadSiteProfiles(dir);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SiteProfileError);
+    expect((error as SiteProfileError).message).toContain('duplicate site profile id "shop"');
+    expect((error as SiteProfileError).problems).toEqual([
+      path.join(dir, 'a.profile.yaml'),
+      path.join(dir, 'b.profile.yaml'),
+    ]);
+  });
+
+  test('an invalid profile in the directory throws', () => {
+    expect(() => loadSiteProfiles(path.join(PROFILES, 'invalid'))).toThrow(SiteProfileError);
+  });
+
+  test('a missing directory throws', () => {
+    expect(() => loadSiteProfiles(path.join(PROFILES, 'missing'))).toThrow(
+      'site profiles directory not found'
+    );
+  });
+});
+
+test.describe('getSiteProfile', () => {
+  test('matches the id case-insensitively', () => {
+    expect(getSiteProfile(' SHOP ', VALID).baseUrl).toBe('https://shop.example.md');
+  });
+
+  test('an unknown id throws with the available ids', () => {
+    expect(() => getSiteProfile('nope', VALID)).toThrow(SiteProfileError);
+    expect(() => getSiteProfile('nope', VALID)).toThrow(
+      'unknown site id "nope" (available: outlet, shop)'
+    );
+  });
+});
+
+test.describe('validateSiteProfile', () => {
+  test('reports every problem of a broken profile at once', () => {
+    const source = path.join(PROFILES, 'invalid', 'broken.profile.yaml');
+    let error: unknown;
+    try {
+      validateSiteProfile(parseProfileFile(source), source);
+    } catch (e) {
+      error = e;
+    }
+    expect(error).toBeInstanceOf(SiteProfileError);
+    expect((error as SiteProfileError).source).toBe(source);
+    expect((error as SiteProfileError).problems).toEqual([
+      'id: required, lowercase letters/digits/"-"/"_" only',
+      'baseUrl: required absolute http(s) URL',
+      expect.stringMatching(/^routes: required \(known keys: home, contact, /),
+      'applicability.hasCheckout: required boolean',
+      'i18n.cookieReject: required list of non-empty strings',
+      'selectors.productLink: must be a list of selectors',
+      'elementVisibilityById.1.1.selectors: required non-empty list of selectors',
+      'elementVisibilityById.1.1.route: unknown route key "about"',
+      'routesById.1.5.routes: unknown route key "blog"',
+    ]);
+  });
+
+  test('missing selectors and home route are reported', () => {
+    const source = path.join(VALID, 'outlet.profile.yml');
+    const raw = parseProfileFile(source) as Record<string, unknown>;
+    expect(() =>
+      validateSiteProfile({ ...raw, routes: { contact: '/contact' }, selectors: undefined }, source)
+    ).toThrow(/routes\.home: required\n {2}- selectors: required$/);
+  });
+
+  test('a non-object profile throws', () => {
+    expect(() => validateSiteProfile(['shop'], 'inline')).toThrow('site profile must be an object');
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Route plans (profile > checklist > inferred) and how per-route outcomes fold into one result.
+ */
+
+import { test, expect } from '@playwright/test';
+import {
+  combineRouteOutcomes,
+  joinUrl,
+  resolveRoutePlan,
+  type RouteOutcome,
+  type RoutePlan,
+} from '../engine/routing';
+import { AutomationType, type NormalizedRequirement, type ResultStatus } from '../engine/types';
+import type { RouteKey, SiteProfile } from '../site/siteProfile';
+
+const PROFILE: SiteProfile = {
+  id: 'fixture',
+  baseUrl: 'https://shop.example.md',
+  routes: { home: '/', contact: '/contacte', privacy: '/confidentialitate', listing: '/catalog' },
+  applicability: { hasCheckout: true },
+  i18n: {
+    cookieAccept: [],
+    cookieReject: [],
+    cookieManage: [],
+    termsCheckboxLabels: [],
+    finalizeOrderButtonLabels: [],
+  },
+  selectors: {},
+  routesById: { '3.1': { routes: ['terms', 'returns'], mode: 'all' } },
+};
+
+function requirement(
+  id: string,
+  raw: Record<string, unknown>,
+  whereToVerify = 'Footer'
+): NormalizedRequirement {
+  return {
+    id,
+    sectionKey: `section_${id.split('.')[0]}`,
+    desc: `Requirement ${id}`,
+    whereToVerify,
+    severity: 'RIDICAT',
+    scope: 'MANDATORY',
+    automation: { type: AutomationType.keyword_search, raw: { type: 'keyword_search', ...raw } },
+  };
+}
+
+function outcome(routeKey: RouteKey, status: ResultStatus, screenshot?: string): RouteOutcome {
+  return {
+    routeKey,
+    status,
+    reason: `${routeKey}: ${status}`,
+    evidence: {
+      url: `https://shop.example.md/${routeKey}`,
+      ...(screenshot ? { screenshots: [{ path: screenshot }] } : {}),
+    },
+  };
+}
+
+const plan = (routes: RouteKey[], mode: RoutePlan['mode']): RoutePlan => ({
+  routes,
+  mode,
+  source: 'checklist',
+});
+
+test.describe('resolveRoutePlan', () => {
+  test('the site profile override wins over the checklist', () => {
+    const req = requirement('3.1', { routes: ['home'] });
+    expect(resolveRoutePlan(req, PROFILE)).toEqual({
+      routes: ['terms', 'returns'],
+      mode: 'all',
+      source: 'profile',
+    });
+  });
+
+  test('checklist routes drop unknown keys and duplicates', () => {
+    const req = requirement('1.1', { routes: ['contact', 'nowhere', 'home', 'contact'] });
+    expect(resolveRoutePlan(req, PROFILE)).toEqual({
+      routes: ['contact', 'home'],
+      mode: 'any',
+      source: 'checklist',
+    });
+  });
+
+  test('routes_mode "all" is read from the checklist', () => {
+    const req = requirement('1.1', { routes: ['home', 'contact'], routes_mode: 'ALL' });
+    expect(resolveRoutePlan(req, PROFILE).mode).toBe('all');
+  });
+
+  test('without routes the page is inferred from where to verify', () => {
+    const req = requirement('1.2', {}, 'Politica de confidențialitate');
+    expect(resolveRoutePlan(req, PROFILE)).toEqual({
+      routes: ['privacy'],
+      mode: 'any',
+      source: 'inferred',
+    });
+  });
+});
+
+test.describe('combineRouteOutcomes', () => {
+  test('any: one passing route is enough', () => {
+    const result = combineRouteOutcomes(plan(['home', 'contact'], 'any'), [
+      outcome('home', 'FAIL'),
+      outcome('contact', 'PASS'),
+    ]);
+    expect(result.status).toBe('PASS');
+    expect(result.route?.key).toBe('contact');
+    expect(result.evidence.url).toBe('https://shop.example.md/contact');
+  });
+
+  test('any: no passing route reports the worst one', () => {
+    const result = combineRouteOutcomes(plan(['home', 'contact'], 'any'), [
+      outcome('home', 'WARN'),
+      outcome('contact', 'FAIL'),
+    ]);
+    expect(result.status).toBe('FAIL');
+    expect(result.reason).toContain('no route satisfied: home=WARN, contact=FAIL');
+  });
+
+  test('all: one failing route fails the requirement', () => {
+    const result = combineRouteOutcomes(plan(['home', 'contact'], 'all'), [
+      outcome('home', 'PASS'),
+      outcome('contact', 'FAIL'),
+    ]);
+    expect(result.status).toBe('FAIL');
+    expect(result.route?.key).toBe('contact');
+  });
+
+  test('all: passing routes next to an unchecked one give WARN', () => {
+    const result = combineRouteOutcomes(plan(['home', 'contact'], 'all'), [
+      outcome('home', 'PASS'),
+      outcome('contact', 'SKIPPED'),
+    ]);
+    expect(result.status).toBe('WARN');
+    expect(result.reason).toMatch(/^not verified on every route/);
+  });
+
+  test('outcomes are folded in plan order and keep every screenshot', () => {
+    const result = combineRouteOutcomes(plan(['home', 'contact'], 'all'), [
+      outcome('contact', 'PASS', 'contact.png'),
+      outcome('home', 'PASS', 'home.png'),
+    ]);
+    expect(result.status).toBe('PASS');
+    expect(result.route?.checked.map(c => c.key)).toEqual(['home', 'contact']);
+    expect(result.evidence.screenshots?.map(s => s.path)).toEqual(['home.png', 'contact.png']);
+  });
+
+  test('no recorded outcome is SKIPPED', () => {
+    expect(combineRouteOutcomes(plan(['home'], 'any'), []).status).toBe('SKIPPED');
+  });
+});
+
+test.describe('joinUrl', () => {
+  test('joins relative paths and keeps absolute URLs', () => {
+    expect(joinUrl('https://shop.example.md/', 'contacte')).toBe(
+      'https://shop.example.md/contacte'
+    );
+    expect(joinUrl('https://shop.example.md', 'https://partner.example.md/checkout')).toBe(
+      'https://partner.example.md/checkout'
+    );
+  });
+});
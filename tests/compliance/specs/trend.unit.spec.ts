@@ -0,0 +1,116 @@
+/**
+ * Trend over fixture report histories: regressions across SKIPPED runs, improvements, flaky requirements, and
+ * report files that cannot be read.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { buildTrend, loadReports, type ReportEntry, type Trend } from '../reporting/trend';
+import type { ResultStatus } from '../engine/types';
+import { fixtureReport, fixtureResult } from './fixtures/reports';
+
+/** One run per column: `history['1.1'] = ['PASS', 'FAIL']` is 1.1 passing in run 1 and failing in run 2. */
+function trendOf(history: Record<string, Array<ResultStatus | null>>): Trend {
+  const runCount = Math.max(...Object.values(history).map(h => h.length));
+  const entries: ReportEntry[] = Array.from({ length: runCount }, (_, run) => {
+    const results = Object.entries(history)
+      .filter(([, statuses]) => statuses[run])
+      .map(([id, statuses]) => fixtureResult(id, statuses[run]!));
+    const generatedAt = `2026-10-0${run + 1}T08:00:00.000Z`;
+    return {
+      name: `compliance-report.fixture.${run + 1}.json`,
+      fullPath: '',
+      report: fixtureReport(results, { generatedAt }),
+    };
+  });
+  return buildTrend(entries);
+}
+
+function flagsOf(trend: Trend, id: string): { regression: boolean; improvement: boolean } {
+  const req = trend.requirements.find(r => r.id === id)!;
+  return { regression: req.regression, improvement: req.improvement };
+}
+
+test.describe('buildTrend', () => {
+  test('PASS → FAIL → FAIL stays a regression', () => {
+    const trend = trendOf({ '1.1': ['PASS', 'FAIL', 'FAIL'] });
+    expect(flagsOf(trend, '1.1')).toEqual({ regression: true, improvement: false });
+  });
+
+  test('a SKIPPED run in between does not hide a regression', () => {
+    const trend = trendOf({ '1.1': ['PASS', 'SKIPPED', 'FAIL'] });
+    expect(trend.regressions.map(r => r.id)).toEqual(['1.1']);
+  });
+
+  test('SKIPPED in the latest run is neither a regression nor an improvement', () => {
+    const trend = trendOf({
+      '1.1': ['PASS', 'FAIL', 'SKIPPED'],
+      '1.2': ['FAIL', 'PASS', 'SKIPPED'],
+    });
+    expect(flagsOf(trend, '1.1')).toEqual({ regression: false, improvement: false });
+    expect(flagsOf(trend, '1.2')).toEqual({ regression: false, improvement: false });
+  });
+
+  test('PASS after a FAIL is an improvement; PASS after PASS is not', () => {
+    const trend = trendOf({ '1.1': ['PASS', 'FAIL', 'PASS'], '1.2': ['FAIL', 'PASS', 'PASS'] });
+    expect(trend.improvements.map(r => r.id)).toEqual(['1.1']);
+  });
+
+  test('a requirement missing from the latest run is judged on its last run', () => {
+    const trend = trendOf({ '1.1': ['PASS', 'FAIL', null], '1.2': ['PASS', 'PASS', 'PASS'] });
+    expect(flagsOf(trend, '1.1').regression).toBe(true);
+    expect(trend.requirements.find(r => r.id === '1.1')!.statuses).toEqual(['PASS', 'FAIL', null]);
+  });
+
+  test('two verdict changes make a requirement flaky', () => {
+    const trend = trendOf({
+      '1.1': ['PASS', 'WARN', 'PASS'],
+      '1.2': ['PASS', 'FAIL', 'FAIL'],
+    });
+    expect(trend.flaky.map(r => r.id)).toEqual(['1.1']);
+    expect(trend.requirements.find(r => r.id === '1.2')!.changes).toBe(1);
+  });
+
+  test('the delta compares the first and the latest run of the window', () => {
+    const trend = trendOf({ '1.1': ['PASS', 'FAIL'], '1.2': ['FAIL', 'FAIL'] });
+    expect(trend.delta).toEqual({
+      from: '2026-10-01T08:00:00.000Z',
+      to: '2026-10-02T08:00:00.000Z',
+      pass: -1,
+      fail: 1,
+    });
+  });
+});
+
+test.describe('loadReports', () => {
+  test('sorts by generation time, filters by site and reports unreadable files', () => {
+    const dir = test.info().outputPath('reports');
+    fs.mkdirSync(dir, { recursive: true });
+    const write = (name: string, content: string): void =>
+      fs.writeFileSync(path.join(dir, name), content);
+    write(
+      'compliance-report.fixture.b.json',
+      JSON.stringify(fixtureReport([], { generatedAt: '2026-10-01T08:00:00.000Z' }))
+    );
+    write(
+      'compliance-report.fixture.a.json',
+      JSON.stringify(fixtureReport([], { generatedAt: '2026-10-02T08:00:00.000Z' }))
+    );
+    write('compliance-report.other.json', JSON.stringify(fixtureReport([], { siteId: 'other' })));
+    write('compliance-report.broken.json', '{ "meta": ');
+    write('notes.json', '{}');
+
+    const { entries, skipped } = loadReports(dir, 'FIXTURE');
+    expect(entries.map(e => e.name)).toEqual([
+      'compliance-report.fixture.b.json',
+      'compliance-report.fixture.a.json',
+    ]);
+    expect(skipped.map(s => s.name)).toEqual(['compliance-report.broken.json']);
+    expect(skipped[0].error).toBeTruthy();
+  });
+
+  test('a missing directory has no reports', () => {
+    expect(loadReports(test.info().outputPath('missing'))).toEqual({ entries: [], skipped: [] });
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Waiver file loading and how waivers change results, including expiry.
+ */
+
+import path from 'path';
+import { test, expect } from '@playwright/test';
+import { applyWaivers, loadWaivers, WaiverFileError } from '../engine/waivers';
+import { fixtureResult } from './fixtures/reports';
+
+const FIXTURES = path.join(__dirname, 'fixtures');
+const NOW = new Date('2026-10-19T12:00:00.000Z');
+
+test.describe('loadWaivers', () => {
+  test('reads the list and normalizes the site id', () => {
+    const waivers = loadWaivers(path.join(FIXTURES, 'waivers.yaml'));
+    expect(waivers).toHaveLength(5);
+    expect(waivers[0]).toMatchObject({ id: '1.1', siteId: 'fixture', expires: '2026-10-31' });
+  });
+
+  test('a missing file means no waivers', () => {
+    expect(loadWaivers(path.join(FIXTURES, 'no-such-waivers.yaml'))).toEqual([]);
+  });
+
+  test('lists every invalid entry', () => {
+    let error: unknown;
+    try {
+      loadWaivers(path.join(FIXTURES, 'waivers.invalid.yaml'));
+    } catch (err) {
+      error = err;
+    }
+    expect(error).toBeInstanceOf(WaiverFileError);
+    expect((error as WaiverFileError).problems).toEqual([
+      'waivers[0]: missing justification',
+      'waivers[1] (1.2): invalid expires "end of year" (expected YYYY-MM-DD)',
+    ]);
+  });
+});
+
+test.describe('applyWaivers', () => {
+  const waivers = loadWaivers(path.join(FIXTURES, 'waivers.yaml'));
+
+  test('an active waiver turns FAIL into WAIVED and keeps the original verdict', () => {
+    const [result] = applyWaivers([fixtureResult('1.1', 'FAIL')], waivers, 'fixture', NOW);
+    expect(result.status).toBe('WAIVED');
+    expect(result.reason).toContain('original FAIL');
+    expect(result.waiver).toMatchObject({ originalStatus: 'FAIL', expired: false });
+  });
+
+  test('an expired waiver keeps the status and says so in the reason', () => {
+    const [result] = applyWaivers([fixtureResult('1.2', 'WARN')], waivers, 'fixture', NOW);
+    expect(result.status).toBe('WARN');
+    expect(result.reason).toContain('waiver expired on 2026-09-30');
+    expect(result.waiver?.expired).toBe(true);
+  });
+
+  test('a date-only expiry lasts until the end of that day (UTC)', () => {
+    const lastDay = new Date('2026-10-31T23:59:00.000Z');
+    const dayAfter = new Date('2026-11-01T00:00:01.000Z');
+    const result = fixtureResult('1.1', 'FAIL');
+    expect(applyWaivers([result], waivers, 'fixture', lastDay)[0].status).toBe('WAIVED');
+    expect(applyWaivers([result], waivers, 'fixture', dayAfter)[0].status).toBe('FAIL');
+  });
+
+  test('the longest-lasting waiver of a requirement wins', () => {
+    const [result] = applyWaivers([fixtureResult('1.3', 'FAIL')], waivers, 'fixture', NOW);
+    expect(result.status).toBe('WAIVED');
+    expect(result.waiver?.owner).toBe('dpo@example.md');
+  });
+
+  test('PASS, SKIPPED and other sites are left untouched', () => {
+    const results = [
+      fixtureResult('1.1', 'PASS'),
+      fixtureResult('1.3', 'SKIPPED'),
+      fixtureResult('1.4', 'FAIL'),
+    ];
+    expect(applyWaivers(results, waivers, 'fixture', NOW)).toEqual(results);
+  });
+});
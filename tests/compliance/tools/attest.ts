@@ -0,0 +1,126 @@
+/* eslint-disable no-console */
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+
+import {
+  attestationExpiry,
+  loadAttestations,
+  resolveAttestationsPath,
+} from '../engine/attestations';
+import { normalizeChecklist, readChecklist, resolveAuditPath } from '../engine/checklist';
+import { AutomationType } from '../engine/types';
+
+/**
+ * Appends a manual attestation to the attestation file (comments and earlier entries are kept), or lists them.
+ *
+ *   npm run compliance:attest -- --id=7.3 --status=PASS --auditor=jane.doe@example.md \
+ *     --note="Exceptions listed in T&C section 6" [--site=smart] [--date=2025-11-03] \
+ *     [--evidence=path/a.png,path/b.pdf] [--valid-days=180]
+ *   npm run compliance:attest -- --list [--site=smart]
+ */
+
+function readArg(args: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+  const found = args.find(a => a.startsWith(prefix));
+  return found === undefined ? undefined : found.slice(prefix.length).trim();
+}
+
+function list(filePath: string, siteId: string | undefined): void {
+  const now = Date.now();
+  const attestations = loadAttestations(filePath).filter(a => !siteId || a.siteId === siteId);
+  for (const a of attestations) {
+    const expires = attestationExpiry(a);
+    const state = expires.getTime() < now ? 'STALE' : 'valid';
+    console.log(
+      `${a.siteId} ${a.id} ${a.status} by ${a.auditor} on ${a.date} (${state} until ${expires.toISOString().slice(0, 10)}): ${a.note}`
+    );
+  }
+  console.log(
+    `[ATTEST] ${attestations.length} attestation(s) in ${path.relative(process.cwd(), filePath)}`
+  );
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const filePath = resolveAttestationsPath();
+  const site = (readArg(args, 'site') || process.env.COMPLIANCE_SITE || 'smart').toLowerCase();
+
+  if (args.includes('--list')) {
+    list(filePath, readArg(args, 'site')?.toLowerCase());
+    return;
+  }
+
+  const id = readArg(args, 'id');
+  const status = readArg(args, 'status')?.toUpperCase();
+  const auditor = readArg(args, 'auditor');
+  const note = readArg(args, 'note');
+  if (!id || !status || !auditor || !note) {
+    console.error(
+      'usage: --id=<requirement> --status=PASS|FAIL --auditor=<name> --note=<text> [--site] [--date] [--evidence] [--valid-days]'
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const requirement = normalizeChecklist(readChecklist(resolveAuditPath())).find(r => r.id === id);
+  if (!requirement) {
+    console.error(`[ATTEST] requirement ${id} is not in the checklist`);
+    process.exitCode = 1;
+    return;
+  }
+  if (requirement.automation.type !== AutomationType.manual_check) {
+    console.warn(
+      `[ATTEST] ${id} is automated (${requirement.automation.type}); the attestation only applies when the check is SKIPPED`
+    );
+  }
+
+  const evidence = (readArg(args, 'evidence') || '')
+    .split(',')
+    .map(p => p.trim())
+    .filter(Boolean);
+  for (const file of evidence.filter(p => !fs.existsSync(path.resolve(p)))) {
+    console.warn(`[ATTEST] evidence file not found (yet): ${file}`);
+  }
+  const validDays = readArg(args, 'valid-days');
+  const entry = {
+    id,
+    siteId: site,
+    status,
+    note,
+    auditor,
+    date: readArg(args, 'date') || new Date().toISOString().slice(0, 10),
+    ...(evidence.length ? { evidence } : {}),
+    ...(validDays ? { validForDays: Number(validDays) } : {}),
+  };
+
+  const original = fs.existsSync(filePath)
+    ? fs.readFileSync(filePath, 'utf-8')
+    : 'attestations: []\n';
+  const doc = YAML.parseDocument(original);
+  const current = doc.get('attestations');
+  if (!YAML.isSeq(current)) doc.set('attestations', doc.createNode([]));
+  const seq = doc.get('attestations') as YAML.YAMLSeq;
+  seq.flow = false;
+  seq.add(doc.createNode(entry));
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, doc.toString(), 'utf-8');
+  try {
+    loadAttestations(filePath);
+  } catch (e) {
+    // Never leave a file the runner would refuse to load.
+    fs.writeFileSync(filePath, original, 'utf-8');
+    throw e;
+  }
+  console.log(
+    `[ATTEST] recorded ${entry.status} for ${site} ${id} (${path.relative(process.cwd(), filePath)})`
+  );
+}
+
+try {
+  main();
+} catch (err) {
+  console.error(err instanceof Error ? err.stack || err.message : String(err));
+  process.exitCode = 1;
+}
@@ -0,0 +1,44 @@
+/* eslint-disable no-console */
+import fs from 'fs';
+import path from 'path';
+
+import { readChecklist } from '../engine/checklist';
+import { diffChecklists, formatChecklistDiff } from '../engine/checklistDiff';
+
+function argValue(args: string[], name: string): string | undefined {
+  const arg = args.find(a => a.startsWith(`--${name}=`));
+  return arg ? arg.slice(name.length + 3) : undefined;
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const basePath = argValue(args, 'base');
+  const headPath = argValue(args, 'head');
+  if (!basePath || !headPath) {
+    throw new Error(
+      'usage: diff-checklists --base=<old.json> --head=<new.json> [--format=text|json] [--output=<file>]'
+    );
+  }
+
+  const format = (argValue(args, 'format') || 'text').toLowerCase();
+  const diff = diffChecklists(
+    readChecklist(path.resolve(basePath)),
+    readChecklist(path.resolve(headPath))
+  );
+  const rendered = format === 'json' ? JSON.stringify(diff, null, 2) : formatChecklistDiff(diff);
+
+  const outputPath = argValue(args, 'output');
+  if (outputPath) {
+    fs.writeFileSync(path.resolve(outputPath), rendered, 'utf-8');
+    console.log(path.resolve(outputPath));
+  } else {
+    console.log(rendered);
+  }
+}
+
+try {
+  main();
+} catch (err: any) {
+  console.error(String(err?.stack || err));
+  process.exitCode = 1;
+}
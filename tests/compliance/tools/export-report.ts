@@ -0,0 +1,69 @@
+/* eslint-disable no-console */
+import fs from 'fs';
+import path from 'path';
+
+import type { ComplianceReport } from '../engine/types';
+import {
+  EXPORT_FORMATS,
+  parseExportFormats,
+  readExportFormatsFromEnv,
+  writeExports,
+} from '../reporting/exporters';
+import { readGatePolicyFromEnv } from '../engine/gate';
+
+/**
+ * Converts an existing JSON report into CI formats (the runner does the same when `COMPLIANCE_EXPORT` is set).
+ *
+ *   npm run compliance:export -- [--input=<report.json>] [--format=junit,sarif] [--out-dir=<dir>]
+ *
+ * Without `--input`, the newest report of `COMPLIANCE_SITE` is used; without `--format`, `COMPLIANCE_EXPORT`
+ * or else both formats.
+ */
+
+function latestReport(reportsDir: string): string {
+  const files = fs.existsSync(reportsDir)
+    ? fs
+        .readdirSync(reportsDir)
+        .filter(f => /^compliance-report\..*\.json$/i.test(f))
+        .map(f => path.join(reportsDir, f))
+        .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs)
+    : [];
+  if (!files.length) throw new Error(`No JSON reports found in ${reportsDir}`);
+  return files[0];
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const arg = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const siteId = (process.env.COMPLIANCE_SITE || 'smart').toLowerCase();
+  const input = arg('input')
+    ? path.resolve(arg('input')!)
+    : latestReport(path.join(process.cwd(), 'tests', 'compliance', 'reports', siteId));
+
+  let formats = parseExportFormats(arg('format') || '', '--format');
+  if (!formats.length) formats = readExportFormatsFromEnv();
+  if (!formats.length) formats = [...EXPORT_FORMATS];
+
+  const report = JSON.parse(fs.readFileSync(input, 'utf-8')) as ComplianceReport;
+  const outDir = arg('out-dir') ? path.resolve(arg('out-dir')!) : path.dirname(input);
+  fs.mkdirSync(outDir, { recursive: true });
+
+  const written = writeExports(
+    report,
+    outDir,
+    path.basename(input).replace(/\.json$/i, ''),
+    formats,
+    {
+      warnAsFailure: readGatePolicyFromEnv().warnAsFail,
+    }
+  );
+  for (const file of written) console.log(file);
+}
+
+try {
+  main();
+} catch (err: any) {
+  console.error(String(err?.stack || err));
+  process.exitCode = 1;
+}
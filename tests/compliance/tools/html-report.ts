@@ -0,0 +1,76 @@
+/* eslint-disable no-console */
+import fs from 'fs';
+import path from 'path';
+
+import type { ComplianceReport } from '../engine/types';
+import { writeHtmlReport } from '../reporting/htmlReport';
+import { resolveReportLanguage } from '../reporting/i18n';
+import { buildTrend, loadReports, type Trend } from '../reporting/trend';
+
+/**
+ * Renders a JSON report as HTML.
+ *
+ *   npm run compliance:report -- [--input=<report.json>] [--output=<file.html>] [--lang=ro|ru|en]
+ *                                [--self-contained] [--trend-limit=<n>] [--no-trend]
+ *
+ * Without `--input`, the newest report of `COMPLIANCE_SITE` is used. `--self-contained` inlines screenshots so the
+ * single HTML file (`<report>.standalone.html` by default) can be sent by e-mail.
+ */
+
+function latestReport(reportsDir: string): string {
+  if (!fs.existsSync(reportsDir)) throw new Error(`Reports directory not found: ${reportsDir}`);
+  const files = fs
+    .readdirSync(reportsDir)
+    .filter(f => /^compliance-report\..*\.json$/i.test(f))
+    .map(f => path.join(reportsDir, f))
+    .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs);
+  if (!files.length) throw new Error(`No JSON reports found in ${reportsDir}`);
+  return files[0];
+}
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const arg = (name: string) => args.find(a => a.startsWith(`--${name}=`))?.slice(name.length + 3);
+
+  const siteId = (process.env.COMPLIANCE_SITE || 'smart').toLowerCase();
+  const input = arg('input')
+    ? path.resolve(arg('input')!)
+    : latestReport(path.join(process.cwd(), 'tests', 'compliance', 'reports', siteId));
+  const report = JSON.parse(fs.readFileSync(input, 'utf8')) as ComplianceReport;
+
+  const selfContained = args.includes('--self-contained');
+  const outFile = arg('output')
+    ? path.resolve(arg('output')!)
+    : input.replace(/\.json$/i, selfContained ? '.standalone.html' : '.html');
+
+  // Trend across all runs of the same site that live next to the chosen report, up to that report.
+  let trend: Trend | null = null;
+  if (!args.includes('--no-trend')) {
+    const { entries, skipped } = loadReports(path.dirname(input), report.meta?.siteId || siteId);
+    for (const s of skipped)
+      console.warn(`[TREND] skipping unreadable report ${s.name}: ${s.error}`);
+    trend = buildTrend(
+      entries.filter(
+        e =>
+          String(e.report.meta?.generatedAt || '') <= String(report.meta?.generatedAt || '\uffff')
+      ),
+      { limit: Number(arg('trend-limit')) || undefined }
+    );
+  }
+
+  writeHtmlReport(report, outFile, {
+    lang: resolveReportLanguage(report, arg('lang') || process.env.REPORT_LANG),
+    trend,
+    sourceName: path.basename(input),
+    assetsBaseDir: path.dirname(input),
+    selfContained,
+  });
+  console.log(outFile);
+}
+
+try {
+  main();
+} catch (err: any) {
+  console.error(String(err?.stack || err));
+  process.exitCode = 1;
+}
@@ -0,0 +1,148 @@
+/* eslint-disable no-console */
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import type { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+
+import { inspectTls, probeHttpRedirect } from '../engine/tls';
+
+/**
+ * Exercises the TLS inspector used by `ssl_check` against a local self-signed server:
+ * generates a certificate with `openssl`, serves HTTPS (with HSTS) plus an HTTP → HTTPS redirect, and checks
+ * what the inspector reports with and without the certificate as trusted CA.
+ *
+ *   npm run compliance:tls-selftest -- [--days=20] [--keep]
+ *
+ * `--days` sets the certificate lifetime (use a value inside `expiry_warn_days` to see the WARN window);
+ * `--keep` leaves the servers running and prints a profile `baseUrl` + `COMPLIANCE_TLS_CA_FILE` to try a full run.
+ */
+
+function generateCertificate(
+  dir: string,
+  days: number
+): { key: string; cert: string; certPath: string } {
+  const keyPath = path.join(dir, 'key.pem');
+  const certPath = path.join(dir, 'cert.pem');
+  execFileSync(
+    'openssl',
+    [
+      'req',
+      '-x509',
+      '-newkey',
+      'rsa:2048',
+      '-nodes',
+      '-keyout',
+      keyPath,
+      '-out',
+      certPath,
+      '-days',
+      String(days),
+      '-subj',
+      '/CN=localhost/O=Compliance self-test',
+      '-addext',
+      'subjectAltName=DNS:localhost,IP:127.0.0.1',
+    ],
+    { stdio: 'ignore' }
+  );
+  return {
+    key: fs.readFileSync(keyPath, 'utf-8'),
+    cert: fs.readFileSync(certPath, 'utf-8'),
+    certPath,
+  };
+}
+
+function listen(server: http.Server): Promise<number> {
+  return new Promise(resolve =>
+    server.listen(0, '127.0.0.1', () => resolve((server.address() as AddressInfo).port))
+  );
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const daysArg = args.find(a => a.startsWith('--days='));
+  const days = daysArg ? Number(daysArg.slice('--days='.length)) : 365;
+  const keep = args.includes('--keep');
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'compliance-tls-'));
+  const { key, cert, certPath } = generateCertificate(dir, days);
+
+  const httpsServer = https.createServer({ key, cert, minVersion: 'TLSv1.2' }, (_req, res) => {
+    res.writeHead(200, {
+      'Strict-Transport-Security': 'max-age=31536000; includeSubDomains',
+      'Content-Type': 'text/html',
+    });
+    res.end('<!doctype html><title>tls self-test</title><p>ok</p>');
+  });
+  const httpsPort = await listen(httpsServer);
+  const httpServer = http.createServer((req, res) => {
+    res.writeHead(301, { Location: `https://localhost:${httpsPort}${req.url || '/'}` });
+    res.end();
+  });
+  const httpPort = await listen(httpServer);
+  const baseUrl = `https://localhost:${httpsPort}/`;
+
+  const failures: string[] = [];
+  const expect = (ok: boolean, label: string): void => {
+    console.log(`${ok ? 'ok  ' : 'FAIL'} ${label}`);
+    if (!ok) failures.push(label);
+  };
+
+  try {
+    const trusted = await inspectTls(baseUrl, { ca: cert });
+    console.log(JSON.stringify(trusted, null, 2));
+    expect(trusted.certificate?.trusted === true, 'certificate trusted when its CA is supplied');
+    expect(trusted.certificate?.daysToExpiry === days - 1, `days to expiry is ${days - 1}`);
+    expect(
+      trusted.protocols['TLSv1.2'] && trusted.protocols['TLSv1.3'],
+      'TLS 1.2 and 1.3 accepted'
+    );
+    expect(!trusted.protocols.TLSv1 && !trusted.protocols['TLSv1.1'], 'TLS 1.0 and 1.1 refused');
+    expect(
+      trusted.hsts?.maxAge === 31536000 && trusted.hsts.includeSubDomains,
+      'HSTS max-age and includeSubDomains parsed'
+    );
+
+    const untrusted = await inspectTls(baseUrl);
+    expect(
+      untrusted.certificate?.trusted === false && !!untrusted.certificate.error,
+      `self-signed certificate untrusted (${untrusted.certificate?.error})`
+    );
+
+    const redirect = await probeHttpRedirect(new URL(baseUrl), httpPort, 5000);
+    expect(
+      redirect.outcome === 'redirects_to_https',
+      `HTTP → HTTPS redirect (${JSON.stringify(redirect)})`
+    );
+
+    const closed = await probeHttpRedirect(new URL(baseUrl), 1, 2000);
+    expect(
+      closed.outcome === 'not_served',
+      `closed HTTP port reported as not served (${JSON.stringify(closed)})`
+    );
+  } finally {
+    if (!keep) {
+      httpsServer.close();
+      httpServer.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  }
+
+  console.log(
+    `[TLS SELF-TEST] ${failures.length ? `${failures.length} failure(s)` : 'all expectations met'}`
+  );
+  if (failures.length) process.exitCode = 1;
+  if (keep) {
+    console.log(
+      `Servers running (Ctrl+C to stop): baseUrl ${baseUrl}, ssl_check "http_port": ${httpPort}`
+    );
+    console.log(`COMPLIANCE_TLS_CA_FILE=${certPath}`);
+  }
+}
+
+main().catch((err: unknown) => {
+  console.error(err instanceof Error ? err.stack || err.message : String(err));
+  process.exitCode = 1;
+});
@@ -0,0 +1,31 @@
+/* eslint-disable no-console */
+import path from 'path';
+
+import { buildTrend, loadReports } from '../reporting/trend';
+
+/**
+ * Prints the trend of `COMPLIANCE_SITE` (the data behind the HTML trend section) as JSON.
+ *
+ *   npm run compliance:trend -- [--trend-limit=<n>]
+ */
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const siteId = (process.env.COMPLIANCE_SITE || 'smart').toLowerCase();
+  const reportsDir = path.join(process.cwd(), 'tests', 'compliance', 'reports', siteId);
+
+  const limitArg = args.find(a => a.startsWith('--trend-limit='));
+  const { entries, skipped } = loadReports(reportsDir, siteId);
+  for (const s of skipped) console.warn(`[TREND] skipping unreadable report ${s.name}: ${s.error}`);
+  const trend = buildTrend(entries, {
+    limit: Number(limitArg?.slice('--trend-limit='.length)) || undefined,
+  });
+  console.log(JSON.stringify(trend, null, 2));
+}
+
+try {
+  main();
+} catch (err: any) {
+  console.error(String(err?.stack || err));
+  process.exitCode = 1;
+}
@@ -0,0 +1,30 @@
+/* eslint-disable no-console */
+import path from 'path';
+
+import { readChecklist, resolveAuditPath } from '../engine/checklist';
+import { formatChecklistIssue, validateChecklist } from '../engine/checklistSchema';
+
+function main(): void {
+  const args = process.argv.slice(2);
+  const inputArg = args.find(a => a.startsWith('--input='));
+  const auditPath = inputArg ? path.resolve(inputArg.slice('--input='.length)) : resolveAuditPath();
+
+  const issues = validateChecklist(readChecklist(auditPath));
+  const errors = issues.filter(i => i.level === 'error');
+
+  for (const issue of issues) {
+    console.log(formatChecklistIssue(issue));
+  }
+  console.log(
+    `[CHECKLIST] ${path.basename(auditPath)}: ${errors.length} error(s), ${issues.length - errors.length} warning(s)`
+  );
+
+  if (errors.length > 0) process.exitCode = 1;
+}
+
+try {
+  main();
+} catch (err: any) {
+  console.error(String(err?.stack || err));
+  process.exitCode = 1;
+}
@@ -9,7 +9,7 @@
 
 import { Page, Locator } from '@playwright/test';
 import { SELECTORS } from '../../config/selectors';
-import { humanClick, humanSelectOption, randomDelay } from '../../utils/human-like';
+import { humanClick, randomDelay } from '../../utils/human-like';
 import { parsePrice, validateMonthlyPayment } from '../../utils/price-utils';
 import { waitForContentUpdate } from '../../utils/wait-utils';
 import { joinSelectors } from '../../utils/locator-helper';